@@ -0,0 +1,133 @@
+'use strict';
+
+import * as path from 'path';
+
+import { WdiredRename, WdiredPlan, nameProblem, checkPlan, applyRenames } from './wdired';
+
+// Renaming many entries by a regular expression (dired's `% R`). The pattern
+// is matched against each file name and its first match replaced by the
+// replacement, which may use:
+//   $1 .. $99, ${name}   capture groups; ${1:3} pads a group with zeros
+//   $&                   the whole match; $$ is a literal dollar sign
+//   \u \l                upper- or lower-case the next character
+//   \U \L ... \E         upper- or lower-case up to \E
+//   \#  \#{3}            counter of the renamed entries, from 1, optionally
+//                        zero-padded
+//   \\                   a literal backslash
+
+type CaseMode = 'upper' | 'lower' | undefined;
+
+function pad(text: string, width: number): string {
+    while (text.length < width) text = '0' + text;
+    return text;
+}
+
+// Expand `template` for one match; `counter` numbers the renamed entries.
+// Throws for references to groups the pattern does not have.
+export function expandReplacement(template: string, match: RegExpExecArray, counter: number): string {
+    let out = '';
+    let mode: CaseMode;
+    let next: CaseMode;
+    const emit = (text: string) => {
+        if (mode === 'upper') text = text.toUpperCase();
+        if (mode === 'lower') text = text.toLowerCase();
+        if (next && text) {
+            text = (next === 'upper' ? text[0].toUpperCase() : text[0].toLowerCase()) + text.substring(1);
+            next = undefined;
+        }
+        out += text;
+    };
+    const named = (match as { groups?: { [name: string]: string | undefined } }).groups;
+    const group = (ref: string): string => {
+        if (/^\d+$/.test(ref)) {
+            if (Number(ref) >= match.length) throw new Error(`the pattern has no group ${ref}`);
+            return match[Number(ref)] || '';
+        }
+        if (!named || !(ref in named)) throw new Error(`the pattern has no group named ${ref}`);
+        return named[ref] || '';
+    };
+    for (let i = 0; i < template.length; i++) {
+        const c = template[i];
+        const d = template[i + 1];
+        if (c === '\\' && d !== undefined) {
+            i++;
+            if (d === 'u') next = 'upper';
+            else if (d === 'l') next = 'lower';
+            else if (d === 'U') mode = 'upper';
+            else if (d === 'L') mode = 'lower';
+            else if (d === 'E') mode = undefined;
+            else if (d === '#') {
+                const width = /^\{(\d+)\}/.exec(template.substring(i + 1));
+                if (width) i += width[0].length;
+                emit(pad(String(counter), width ? Number(width[1]) : 0));
+            } else emit(d);
+            continue;
+        }
+        if (c === '$' && d !== undefined) {
+            if (d === '$') {
+                emit('$');
+                i++;
+                continue;
+            }
+            if (d === '&') {
+                emit(match[0]);
+                i++;
+                continue;
+            }
+            const braced = /^\{(\w+)(?::(\d+))?\}/.exec(template.substring(i + 1));
+            if (braced) {
+                emit(pad(group(braced[1]), braced[2] ? Number(braced[2]) : 0));
+                i += braced[0].length;
+                continue;
+            }
+            const digits = /^\d{1,2}/.exec(template.substring(i + 1));
+            if (digits) {
+                // `$12` is group 1 followed by "2" when there is no group 12
+                const ref = digits[0].length === 2 && Number(digits[0]) >= match.length ? digits[0][0] : digits[0];
+                emit(group(ref));
+                i += ref.length;
+                continue;
+            }
+        }
+        emit(c);
+    }
+    return out;
+}
+
+// The renames of `paths` (in order) whose names match `pattern`, checked like
+// a wdired edit: collisions with each other or with existing entries, invalid
+// names and missing directories are problems. A problem's `line` is the index
+// in `paths` of the entry it concerns. Throws for an invalid replacement.
+export async function planBatchRename(paths: string[], pattern: RegExp, replacement: string): Promise<WdiredPlan> {
+    const plan: WdiredPlan = { renames: [], chmods: [], deletes: [], problems: [] };
+    let counter = 0;
+    paths.forEach((p, index) => {
+        const name = path.basename(p);
+        pattern.lastIndex = 0;
+        const m = pattern.exec(name);
+        if (!m) return;
+        const newName = name.substring(0, m.index) + expandReplacement(replacement, m, ++counter) + name.substring(m.index + m[0].length);
+        if (newName === name) return;
+        const invalid = nameProblem(newName);
+        if (invalid) plan.problems.push({ line: index, message: invalid });
+        else plan.renames.push({ src: path.resolve(p), dest: path.join(path.dirname(path.resolve(p)), newName), line: index });
+    });
+    await checkPlan(plan);
+    return plan;
+}
+
+// Perform `renames` all or nothing: when one fails, the moves made so far
+// are reverted, last first. Resolves the moves that stay made (none after a
+// failure) and the failures as "name: reason".
+export async function renameAll(renames: WdiredRename[], move: (from: string, to: string) => Promise<string | undefined>): Promise<{ moves: { src: string, dest: string }[], failed: string[] }> {
+    const { moves, failed } = await applyRenames(renames, move);
+    if (!failed.length) return { moves, failed };
+    for (const { src, dest } of moves.slice().reverse()) {
+        try {
+            await move(dest, src);
+        } catch (e) {
+            failed.push(`${path.basename(dest)} could not be renamed back to ${path.basename(src)}: ${e}`);
+        }
+    }
+    return { moves: [], failed };
+}
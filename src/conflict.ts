@@ -0,0 +1,159 @@
+'use strict';
+
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+
+import { ConflictHandler } from './fileOps';
+
+// What to do when a copy or move finds its destination already there.
+export type ConflictAction = 'overwrite' | 'skip' | 'keepBoth' | 'overwriteIfNewer';
+// `dired.onConflict`: a fixed action, or ask for each conflict
+export type ConflictPolicy = ConflictAction | 'ask';
+
+export const CONFLICT_POLICIES: ConflictPolicy[] = ['ask', 'overwrite', 'skip', 'keepBoth', 'overwriteIfNewer'];
+
+export interface ConflictChoice {
+    action: ConflictAction;
+    // use the same action for the remaining conflicts of the operation
+    applyToAll: boolean;
+}
+
+// Asks the user about one conflict; undefined skips it and every later one.
+export type ConflictPrompt = (src: string, dest: string) => Promise<ConflictChoice | undefined>;
+
+export function isConflictPolicy(value: unknown): value is ConflictPolicy {
+    return typeof value === 'string' && CONFLICT_POLICIES.indexOf(value as ConflictPolicy) >= 0;
+}
+
+// First free name next to `dest`: `name (1).ext`, `name (2).ext`, ...
+export async function uniqueDestination(dest: string): Promise<string> {
+    const dir = path.dirname(dest);
+    const ext = path.extname(dest);
+    const stem = path.basename(dest, ext);
+    for (let i = 1; ; i++) {
+        const candidate = path.join(dir, `${stem} (${i})${ext}`);
+        try {
+            await fs.promises.lstat(candidate);
+        } catch (e) {
+            return candidate;
+        }
+    }
+}
+
+// Resolves the conflicts of one copy or move operation according to a policy
+// and records what was overwritten, skipped or renamed for the final summary.
+export class ConflictResolver {
+    readonly overwritten: string[] = [];
+    readonly skipped: string[] = [];
+    readonly keptBoth: string[] = [];
+    // the prompt was dismissed; every further conflict is skipped
+    cancelled = false;
+    private _sticky: ConflictAction | undefined;
+
+    constructor(readonly policy: ConflictPolicy, private readonly _prompt: ConflictPrompt = promptConflict) {
+        this._sticky = policy === 'ask' ? undefined : policy;
+    }
+
+    // Handler for `copyTree` / `moveEntry`.
+    readonly handler: ConflictHandler = (src, dest) => this.resolve(src, dest);
+
+    async resolve(src: string, dest: string): Promise<string | undefined> {
+        let action = this._sticky;
+        if (!action) {
+            const choice = this.cancelled ? undefined : await this._prompt(src, dest);
+            if (!choice) {
+                this.cancelled = true;
+                this.skipped.push(dest);
+                return undefined;
+            }
+            action = choice.action;
+            if (choice.applyToAll) this._sticky = action;
+        }
+        if (action === 'overwriteIfNewer') {
+            action = (await isNewer(src, dest)) ? 'overwrite' : 'skip';
+        }
+        switch (action) {
+            case 'overwrite':
+                this.overwritten.push(dest);
+                return dest;
+            case 'keepBoth': {
+                const renamed = await uniqueDestination(dest);
+                this.keptBoth.push(renamed);
+                return renamed;
+            }
+            default:
+                this.skipped.push(dest);
+                return undefined;
+        }
+    }
+
+    get hasConflicts(): boolean {
+        return this.overwritten.length + this.skipped.length + this.keptBoth.length > 0;
+    }
+
+    // e.g. "2 overwritten, 1 skipped, 1 kept both"; empty without conflicts
+    summary(): string {
+        const parts: string[] = [];
+        if (this.overwritten.length) parts.push(`${this.overwritten.length} overwritten`);
+        if (this.skipped.length) parts.push(`${this.skipped.length} skipped`);
+        if (this.keptBoth.length) parts.push(`${this.keptBoth.length} kept both`);
+        return parts.join(', ');
+    }
+}
+
+// True when `src` was modified after `dest`.
+async function isNewer(src: string, dest: string): Promise<boolean> {
+    try {
+        const [s, d] = await Promise.all([fs.promises.lstat(src), fs.promises.lstat(dest)]);
+        return s.mtimeMs > d.mtimeMs;
+    } catch (e) {
+        return false;
+    }
+}
+
+// The `dired.onConflict` setting for `target`.
+export function conflictPolicyFor(target: string): ConflictPolicy {
+    const value = vscode.workspace.getConfiguration('dired', vscode.Uri.file(target)).get<string>('onConflict');
+    return isConflictPolicy(value) ? value : 'ask';
+}
+
+const CHOICES: (vscode.QuickPickItem & ConflictChoice)[] = [
+    { label: 'Overwrite', action: 'overwrite', applyToAll: false },
+    { label: 'Skip', action: 'skip', applyToAll: false },
+    { label: 'Keep both', description: 'copy under a new name', action: 'keepBoth', applyToAll: false },
+    { label: 'Overwrite if newer', action: 'overwriteIfNewer', applyToAll: false },
+    { label: 'Overwrite all', action: 'overwrite', applyToAll: true },
+    { label: 'Skip all', action: 'skip', applyToAll: true },
+    { label: 'Keep both for all', action: 'keepBoth', applyToAll: true },
+    { label: 'Overwrite all if newer', action: 'overwriteIfNewer', applyToAll: true },
+];
+
+async function promptConflict(src: string, dest: string): Promise<ConflictChoice | undefined> {
+    const picked = await vscode.window.showQuickPick(CHOICES, {
+        placeHolder: `${dest} already exists (from ${src}). Escape skips this and every further conflict.`,
+        ignoreFocusOut: true
+    });
+    return picked ? { action: picked.action, applyToAll: picked.applyToAll } : undefined;
+}
+
+// Show what the conflict policy did once an operation finished.
+export function reportConflicts(verb: string, resolver: ConflictResolver) {
+    if (!resolver.hasConflicts) return;
+    const summary = resolver.summary();
+    vscode.window.setStatusBarMessage(`${verb}: ${summary}`, 8000);
+    vscode.window.showInformationMessage(`${verb}: ${summary}`, 'Details').then((choice) => {
+        if (choice !== 'Details') return;
+        const channel = vscode.window.createOutputChannel('Dired Conflicts');
+        channel.clear();
+        const section = (title: string, list: string[]) => {
+            if (!list.length) return;
+            channel.appendLine(`${title} (${list.length}):`);
+            for (const p of list) channel.appendLine(`  ${p}`);
+        };
+        section('Overwritten', resolver.overwritten);
+        section('Skipped', resolver.skipped);
+        section('Kept both as', resolver.keptBoth);
+        channel.show(true);
+    }, () => { /* ignore */ });
+}
@@ -1,6 +1,6 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
-import FileItem from './fileItem';
+import DiredProvider from './provider';
 
 export function showMarkedInActiveBuffer(markedPaths?: string[]) {
     const ed = vscode.window.activeTextEditor;
@@ -9,12 +9,6 @@ export function showMarkedInActiveBuffer(markedPaths?: string[]) {
         return;
     }
 
-    // Derive directory from header line (same logic as provider.dirname)
-    let header = ed.document.lineAt(0).text || '';
-    header = header.replace(/:\s*$/, '');
-    header = header.replace(/^Dired:\s*/, '').trim();
-    const dir = header || '.';
-
     const marked: string[] = [];
     if (Array.isArray(markedPaths)) {
         // Use provided canonical marked paths if available
@@ -23,19 +17,15 @@ export function showMarkedInActiveBuffer(markedPaths?: string[]) {
         }
     } else {
         // Fallback: parse the document lines for the '*' marker
-        for (let i = 1; i < ed.document.lineCount; i++) {
-            const line = ed.document.lineAt(i).text;
-            if (!line || !line.trim()) continue;
+        for (const { item } of DiredProvider.entries(ed.document)) {
             try {
-                const item = FileItem.parseLine(dir, line);
-                if (!item || !item.fileName) continue;
                 const rendered = item.line();
                 if (rendered && rendered.charAt(0) === '*') {
                     // skip '.' and '..'
                     if (item.fileName === '.' || item.fileName === '..') continue;
-                    marked.push(path.resolve(dir, item.fileName));
+                    marked.push(path.resolve(item.path));
                 }
-            } catch (e) { /* ignore parse errors */ }
+            } catch (e) { /* ignore render errors */ }
         }
     }
 
@@ -0,0 +1,101 @@
+'use strict';
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+
+import { SortOrder } from './sort';
+import { NameFilter } from './filter';
+import { TrashEntry, TRASH_QUERY } from './trash';
+
+// State owned by one Dired document (one `dired:` URI). Two Dired tabs never
+// share a listing, marks, sort order, filter or cursor memory.
+export class DiredBuffer {
+    // Directory listed by the buffer; the search root of a find-dired buffer.
+    // A fixed-window buffer keeps its URI while `dir` changes.
+    dir: string;
+    // Rendered lines as last handed to VS Code; released when the document closes
+    lines: string[] = [];
+    // Absolute paths of marked entries
+    marks: Set<string> = new Set();
+    // Sort order chosen for this buffer; undefined uses the `dired.sortBy` settings
+    sortOrder: SortOrder | undefined = undefined;
+    // Subdirectories inserted inline, in path order
+    insertedSubdirs: string[] = [];
+    // Directories expanded in place as an indented tree
+    expandedDirs: Set<string> = new Set();
+    // Narrowing filter typed in this buffer
+    filter: NameFilter | undefined = undefined;
+    // Unfiltered find-dired listing, reused while the narrowing filter changes
+    // so typing does not re-run the search
+    findListing: string[] | undefined = undefined;
+    reuseListing = false;
+    // Trash entries of a trash buffer by the path their line resolves to
+    // (the original path)
+    trashEntries: Map<string, TrashEntry> = new Map();
+    // Listing wdired edit mode started from and when; unset while the
+    // buffer is read-only
+    editBase: string[] | undefined = undefined;
+    editStarted = 0;
+    // Last cursor position per directory shown in this buffer
+    cursors: Map<string, { line: number, col: number }> = new Map();
+    watcher: vscode.FileSystemWatcher | undefined = undefined;
+
+    constructor(readonly uri: vscode.Uri, dir: string, readonly findArgs?: string) {
+        this.dir = dir;
+    }
+
+    get key(): string {
+        return this.uri.toString();
+    }
+
+    get isFind(): boolean {
+        return this.findArgs !== undefined;
+    }
+
+    get isTrash(): boolean {
+        return this.uri.query === TRASH_QUERY;
+    }
+
+    get isEditing(): boolean {
+        return this.editBase !== undefined;
+    }
+
+    // Point the buffer at `dir`. State describing the previous listing (marks,
+    // inserted sections, subtrees, sort order and filter) does not carry over;
+    // cursor memory does. Returns true when the directory changed.
+    showDirectory(dir: string): boolean {
+        if (this.dir && path.resolve(this.dir) === path.resolve(dir)) return false;
+        this.dir = dir;
+        this.marks.clear();
+        this.sortOrder = undefined;
+        this.insertedSubdirs = [];
+        this.expandedDirs.clear();
+        this.filter = undefined;
+        this.findListing = undefined;
+        this.editBase = undefined;
+        return true;
+    }
+
+    // True when `dir` appears in this buffer: the main directory, an inserted
+    // or expanded subdirectory, or anything below a find-dired root.
+    shows(dir: string): boolean {
+        if (!this.dir) return false;
+        const target = path.resolve(dir);
+        const main = path.resolve(this.dir);
+        if (target === main) return true;
+        if (this.isFind) return target.startsWith(main + path.sep);
+        return this.insertedSubdirs.indexOf(target) >= 0 || this.expandedDirs.has(target);
+    }
+
+    // Free what can be rebuilt when the document is opened again.
+    release() {
+        this.lines = [];
+        this.findListing = undefined;
+        this.trashEntries.clear();
+        this.editBase = undefined;
+        if (this.watcher) {
+            try { this.watcher.dispose(); } catch (e) { /* ignore */ }
+            this.watcher = undefined;
+        }
+    }
+}
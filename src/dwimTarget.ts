@@ -0,0 +1,57 @@
+'use strict';
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+
+// Destination prompt for copy and move ("do what I mean" target, after
+// Emacs `dired-dwim-target`): directories of the other visible Dired editors
+// are offered first, and any typed path is accepted as well.
+
+export interface TargetCandidate {
+    dir: string;
+    description: string;
+}
+
+// Pair every source with its destination. `input` is resolved against `cwd`;
+// when it names a directory (or there are several sources) each source goes
+// inside it under its own name, otherwise the single source becomes `input`.
+export function resolveTargets(sources: string[], input: string, cwd: string, inputIsDir: boolean): { src: string, dest: string }[] {
+    const target = path.resolve(cwd, input);
+    const into = inputIsDir || sources.length > 1;
+    return sources.map((src) => ({ src, dest: into ? path.join(target, path.basename(src)) : target }));
+}
+
+// Ask for a destination. `candidates` are listed in order; typing filters them
+// and offers the typed text itself as the first item. Resolves undefined when
+// the prompt is dismissed.
+export function promptTarget(prompt: string, candidates: TargetCandidate[], value: string): Promise<string | undefined> {
+    const quickPick = vscode.window.createQuickPick();
+    quickPick.placeholder = prompt;
+    quickPick.title = prompt;
+    quickPick.ignoreFocusOut = true;
+    const fixed: vscode.QuickPickItem[] = candidates.map((c) => ({ label: c.dir, description: c.description, alwaysShow: true }));
+    const update = () => {
+        const typed = quickPick.value.trim();
+        const items = fixed.filter((i) => !typed || i.label.indexOf(typed) >= 0 || typed.startsWith(i.label));
+        if (typed && !fixed.some((i) => i.label === typed)) {
+            items.unshift({ label: typed, description: 'typed path', alwaysShow: true });
+        }
+        quickPick.items = items;
+    };
+    quickPick.value = value;
+    update();
+    return new Promise((resolve) => {
+        let result: string | undefined;
+        quickPick.onDidChangeValue(update);
+        quickPick.onDidAccept(() => {
+            const picked = quickPick.selectedItems[0] || quickPick.activeItems[0];
+            result = picked ? picked.label : (quickPick.value.trim() || undefined);
+            quickPick.hide();
+        });
+        quickPick.onDidHide(() => {
+            quickPick.dispose();
+            resolve(result);
+        });
+        quickPick.show();
+    });
+}
@@ -6,33 +6,22 @@ import FileItem from "./fileItem";
 import DiredProvider from "./provider";
 import { autocompletedInputBox } from "./autocompletedInputBox";
 import debugUi from "./debugUi";
-
-// Move recursive helpers to module scope to avoid recreating closures every time
-async function copyRecursive(src: string, dest: string) {
-    const sstat = await fs.promises.stat(src);
-    if (sstat.isDirectory()) {
-        await fs.promises.mkdir(dest, { recursive: true });
-        for (const name of await fs.promises.readdir(src)) {
-            await copyRecursive(path.join(src, name), path.join(dest, name));
-        }
-    } else {
-        await fs.promises.mkdir(path.dirname(dest), { recursive: true });
-        await fs.promises.copyFile(src, dest);
-    }
-}
-
-async function restoreRecursive(src: string, dest: string) {
-    const sstat = await fs.promises.stat(src);
-    if (sstat.isDirectory()) {
-        await fs.promises.mkdir(dest, { recursive: true });
-        for (const name of await fs.promises.readdir(src)) {
-            await restoreRecursive(path.join(src, name), path.join(dest, name));
-        }
-    } else {
-        await fs.promises.mkdir(path.dirname(dest), { recursive: true });
-        await fs.promises.copyFile(src, dest);
-    }
-}
+import { promptTarget, resolveTargets } from "./dwimTarget";
+import { isInside, copyTree, CopyOptions } from "./fileOps";
+import { ConflictResolver, conflictPolicyFor, reportConflicts } from "./conflict";
+import { withOperationProgress, reportCancelled, OperationCancelled } from "./progress";
+import { Job, JobStatus } from "./jobQueue";
+import { UndoHistory, UndoEntry, UndoStep, UndoDirection, describeEntry, moveSteps } from "./undoHistory";
+import { DeleteStaging, retentionPolicy } from "./staging";
+import { restoreTrashEntry, purgeTrashEntry } from "./trash";
+import { WdiredPlan, describeRename } from "./wdired";
+import { planBatchRename, renameAll } from "./batchRename";
+import { MarkPredicate, byName, byExtension, isDirectory, isExecutable, isSymlink, bySize, byAge, byOwner, byContent } from "./mark";
+import { parseSizeTest, parseAgeTest } from "./find";
+import { formatSize } from "./listingFormat";
+import { SortKey, SORT_KEYS, SORT_KEY_LABELS, describeSortOrder } from "./sort";
+import { parseFilter, compileFilter, filterText } from "./filter";
+import { GitStatusKind, GIT_STATUS_KINDS, GitBatchResult, gitStage, gitUnstage, gitDiscard } from "./git";
 
 export function activate(context: vscode.ExtensionContext) {
     "use strict";
@@ -40,7 +29,10 @@ export function activate(context: vscode.ExtensionContext) {
     const fixed_window = cfg.get<boolean>("fixed_window") || false;
     const ask_dir = cfg.get<boolean>("ask_directory") || false;
 
-    const provider = new DiredProvider(fixed_window);
+    // Undo/redo history, persisted per workspace
+    const history = new UndoHistory(context.workspaceState, () => vscode.workspace.getConfiguration('dired').get<number>('undoLimit') || 50,
+        new DeleteStaging(context.globalState));
+    const provider = new DiredProvider(fixed_window, history);
 
     // In-memory FileSystemProvider for an editable prompt document that lives under
     // the `dired-prompt:` scheme. This allows the document to be editable while
@@ -198,33 +190,103 @@ export function activate(context: vscode.ExtensionContext) {
     });
     context.subscriptions.push(markerDecoration);
 
-    // Persistent status bar item for last action with undo
+    // Decoration for symbolic links whose target no longer exists
+    const brokenLinkDecoration = vscode.window.createTextEditorDecorationType({
+        color: new vscode.ThemeColor('errorForeground'),
+        textDecoration: 'line-through'
+    });
+    context.subscriptions.push(brokenLinkDecoration);
+
+    // Git status column: the porcelain code before each entry, colored like the SCM view
+    const GIT_STATUS_COLORS: { [k in GitStatusKind]: string } = {
+        conflicted: 'gitDecoration.conflictingResourceForeground',
+        modified: 'gitDecoration.modifiedResourceForeground',
+        staged: 'gitDecoration.stageModifiedResourceForeground',
+        untracked: 'gitDecoration.untrackedResourceForeground',
+        ignored: 'gitDecoration.ignoredResourceForeground'
+    };
+    const gitStatusDecorations = new Map<GitStatusKind, vscode.TextEditorDecorationType>();
+    for (const kind of GIT_STATUS_KINDS) {
+        const deco = vscode.window.createTextEditorDecorationType({
+            before: { width: '3ch', color: new vscode.ThemeColor(GIT_STATUS_COLORS[kind]) }
+        });
+        gitStatusDecorations.set(kind, deco);
+        context.subscriptions.push(deco);
+    }
+    // Keeps clean entries aligned with the ones showing a status
+    const gitCleanDecoration = vscode.window.createTextEditorDecorationType({ before: { width: '3ch', contentText: '' } });
+    context.subscriptions.push(gitCleanDecoration);
+
+    // Persistent status bar item for the last undoable action
     const statusItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 100);
     statusItem.command = 'extension.dired.undoLastAction';
     context.subscriptions.push(statusItem);
-
-    // Last action state (persist across reloads in workspaceState)
-    type LastAction = { type: 'delete'|'create', path: string, backup?: string, isDirectory?: boolean } | null;
-    let lastAction: LastAction = context.workspaceState.get<LastAction>('dired.lastAction') || null;
-    function setLastAction(action: LastAction) {
-        lastAction = action;
-        context.workspaceState.update('dired.lastAction', action);
-        if (action) {
-            if (action.type === 'delete') {
-                statusItem.text = `$(trash) Deleted ${path.basename(action.path)} — Undo`;
-                statusItem.tooltip = `Restore ${action.path}`;
-                statusItem.show();
-            } else if (action.type === 'create') {
-                statusItem.text = `$(plus) Created ${path.basename(action.path)} — Undo`;
-                statusItem.tooltip = `Remove ${action.path}`;
-                statusItem.show();
-            }
-        } else {
+    const updateUndoStatus = () => {
+        const last = history.lastApplied;
+        if (!last) {
             statusItem.hide();
+            return;
         }
-    }
-    // Initialize status bar from persisted state
-    setLastAction(lastAction);
+        statusItem.text = `$(history) ${last.label} — Undo`;
+        const redo = history.lastUndone;
+        statusItem.tooltip = `Undo: ${describeEntry(last)}` + (redo ? `\nRedo: ${describeEntry(redo)}` : '');
+        statusItem.show();
+    };
+    context.subscriptions.push(history.onDidChange(updateUndoStatus));
+    // The single-action state of earlier versions is superseded by the history
+    if (context.workspaceState.get('dired.lastAction') !== undefined) context.workspaceState.update('dired.lastAction', undefined);
+    updateUndoStatus();
+
+    // Status bar item counting queued and running file operations
+    const jobsItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 99);
+    jobsItem.command = 'extension.dired.showJobs';
+    context.subscriptions.push(jobsItem);
+    context.subscriptions.push(provider.jobs.onDidChange(() => {
+        const active = provider.jobs.active;
+        if (!active.length) {
+            jobsItem.hide();
+            return;
+        }
+        const paused = active.every((j) => j.paused);
+        jobsItem.text = `$(${paused ? 'debug-pause' : 'sync~spin'}) Dired: ${active.length} job${active.length === 1 ? '' : 's'}`;
+        jobsItem.tooltip = active.map((j) => `${j.title}: ${j.describe()}`).join('\n');
+        jobsItem.show();
+    }));
+
+    // Status bar item with the number of marked entries in the active Dired
+    // buffer and the total size of the marked files (directories not counted)
+    const marksItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 98);
+    marksItem.command = 'extension.dired.nextMarked';
+    context.subscriptions.push(marksItem);
+    let marksGeneration = 0;
+    const updateMarksStatus = async () => {
+        const generation = ++marksGeneration;
+        const ed = vscode.window.activeTextEditor;
+        const marked = ed && ed.document.uri.scheme === DiredProvider.scheme ? provider.getMarkedPaths(ed.document.uri) : [];
+        if (!marked.length) {
+            marksItem.hide();
+            return;
+        }
+        let size = 0;
+        let dirs = 0;
+        for (const p of marked) {
+            try {
+                const st = await fs.promises.lstat(p);
+                if (st.isDirectory()) dirs++;
+                else size += st.size;
+            } catch (e) { /* gone since it was marked */ }
+        }
+        // a newer update started while the sizes were read
+        if (generation !== marksGeneration) return;
+        marksItem.text = `$(check) ${marked.length} marked, ${formatSize(size, 'si')}B`;
+        marksItem.tooltip = `Dired: ${marked.length} marked entr${marked.length === 1 ? 'y' : 'ies'}` +
+            (dirs ? ` (${dirs} director${dirs === 1 ? 'y' : 'ies'} not counted in the size)` : '') + '\nClick to go to the next marked entry';
+        marksItem.show();
+    };
+    context.subscriptions.push(provider.onDidSelectChange(() => updateMarksStatus()));
+    // marks are dropped when a buffer shows another directory
+    context.subscriptions.push(provider.onDidChange(() => updateMarksStatus()));
+    context.subscriptions.push(vscode.window.onDidChangeActiveTextEditor(() => updateMarksStatus()));
 
     // Register the Dired provider as a FileSystemProvider so dired:// documents are editable.
     // This lets users edit filenames inline and save (writeFile) will be invoked.
@@ -314,86 +376,341 @@ export function activate(context: vscode.ExtensionContext) {
         provider.toggleMetaFiles();
         try { vscode.window.setStatusBarMessage(`Dired: ${provider.showMetaFiles ? 'Showing' : 'Hiding'} .meta files`, 3000); } catch (e) { }
     });
-    
+    const commandToggleOmit = vscode.commands.registerCommand("extension.dired.toggleOmit", async () => {
+        await provider.toggleOmitMode();
+        try { vscode.window.setStatusBarMessage(`Dired: omit mode ${provider.omitMode ? 'on' : 'off'}`, 3000); } catch (e) { }
+    });
+    const JOB_ICONS: { [k in JobStatus]: string } = {
+        queued: 'clock', running: 'sync~spin', paused: 'debug-pause', done: 'check', failed: 'error', cancelled: 'circle-slash'
+    };
+    // List the file operation jobs; picking one offers pause, resume or cancel.
+    const commandShowJobs = vscode.commands.registerCommand("extension.dired.showJobs", async () => {
+        type JobItem = vscode.QuickPickItem & { job?: Job, clear?: boolean };
+        const jobs = provider.jobs.jobs.reverse();
+        const items: JobItem[] = jobs.map((job) => ({
+            label: `$(${JOB_ICONS[job.status]}) ${job.title}`,
+            description: job.status,
+            detail: job.describe(),
+            job
+        }));
+        if (jobs.some((j) => j.finished)) items.push({ label: '$(clear-all) Clear finished jobs', clear: true });
+        if (!items.length) {
+            vscode.window.setStatusBarMessage('Dired: no jobs', 3000);
+            return;
+        }
+        const picked = await vscode.window.showQuickPick(items, { placeHolder: 'Dired Jobs', matchOnDetail: true });
+        if (!picked) return;
+        if (picked.clear) {
+            provider.jobs.clearFinished();
+            return;
+        }
+        const job = picked.job;
+        if (!job) return;
+        if (job.finished) {
+            if (job.detail) vscode.window.showInformationMessage(`${job.title}: ${job.describe()}`);
+            return;
+        }
+        const action = await vscode.window.showQuickPick(job.paused ? ['Resume', 'Cancel'] : ['Pause', 'Cancel'], { placeHolder: `${job.title}: ${job.describe()}` });
+        if (action === 'Pause') job.pause();
+        else if (action === 'Resume') job.resume();
+        else if (action === 'Cancel') job.cancel();
+    });
+
+    // The trash buffer lists trashed entries by their original paths, so
+    // commands acting on listed files or directories are refused there.
+    function refusedInTrash(what: string): boolean {
+        if (!provider.inTrashBuffer) return false;
+        vscode.window.setStatusBarMessage(`${what} is not available in this buffer`, 3000);
+        return true;
+    }
+
+    // Mark entries by Git status; the kinds can be passed as an argument
+    // (e.g. `["modified", "untracked"]`) to skip the picker.
+    const commandMarkGitStatus = vscode.commands.registerCommand("extension.dired.markGitStatus", async (arg?: GitStatusKind | GitStatusKind[]) => {
+        if (refusedInTrash('Marking by Git status')) return;
+        let kinds: GitStatusKind[] | undefined = typeof arg === 'string' ? [arg] : arg;
+        if (!kinds || !kinds.length) {
+            const picked = await vscode.window.showQuickPick(
+                GIT_STATUS_KINDS.map((k) => ({ label: k, picked: k === 'modified' || k === 'untracked' })),
+                { canPickMany: true, placeHolder: 'Mark files with Git status' });
+            if (!picked || !picked.length) return;
+            kinds = picked.map((p) => p.label as GitStatusKind);
+        }
+        const count = await provider.markByGitStatus(kinds);
+        try { vscode.window.setStatusBarMessage(`Dired: marked ${count} ${kinds.join('/')} file${count === 1 ? '' : 's'}`, 3000); } catch (e) { }
+    });
+    const plural = (count: number, one: string, many: string) => count === 1 ? one : many;
+    const markAndReport = async (predicate: MarkPredicate, one: string, many: string) => {
+        const count = await provider.markWhere(predicate);
+        try { vscode.window.setStatusBarMessage(`Dired: marked ${count} ${plural(count, one, many)}`, 3000); } catch (e) { }
+    };
+    const validateRegExp = (value: string) => {
+        try { new RegExp(value); return undefined; } catch (e) { return e instanceof Error ? e.message : String(e); }
+    };
+    const commandMarkRegexp = vscode.commands.registerCommand("extension.dired.markRegexp", async (arg?: string) => {
+        const source = typeof arg === 'string' ? arg : await vscode.window.showInputBox({
+            prompt: 'Mark files whose names match (regular expression)',
+            placeHolder: 'e.g. \\.(jpe?g|png)$',
+            validateInput: validateRegExp
+        });
+        if (!source || validateRegExp(source)) return;
+        const pattern = new RegExp(source);
+        const count = await provider.markWhere(byName(pattern));
+        try { vscode.window.setStatusBarMessage(`Dired: marked ${count} ${plural(count, 'entry', 'entries')} matching /${source}/`, 3000); } catch (e) { }
+    });
+    const commandMarkExtension = vscode.commands.registerCommand("extension.dired.markExtension", async (arg?: string) => {
+        let exts = typeof arg === 'string' ? arg : undefined;
+        if (exts === undefined) {
+            const current = provider.getSelectedPath();
+            exts = await vscode.window.showInputBox({
+                prompt: 'Mark files with extension (several separated by commas)',
+                value: current ? path.extname(current) : ''
+            });
+        }
+        if (!exts || !exts.trim()) return;
+        await markAndReport(byExtension(exts), `${exts.trim()} file`, `${exts.trim()} files`);
+    });
+    const commandMarkDirectories = vscode.commands.registerCommand("extension.dired.markDirectories", async () => {
+        await markAndReport(isDirectory, 'directory', 'directories');
+    });
+    const commandMarkExecutables = vscode.commands.registerCommand("extension.dired.markExecutables", async () => {
+        await markAndReport(isExecutable, 'executable', 'executables');
+    });
+    const commandMarkSymlinks = vscode.commands.registerCommand("extension.dired.markSymlinks", async () => {
+        await markAndReport(isSymlink, 'symbolic link', 'symbolic links');
+    });
+    const commandMarkByAttribute = vscode.commands.registerCommand("extension.dired.markByAttribute", async () => {
+        type AttributePickItem = vscode.QuickPickItem & { key: 'size' | 'age' | 'owner' };
+        const items: AttributePickItem[] = [
+            { label: 'Size', description: 'as find -size: +10M larger than 10 MiB, -4k smaller than 4 KiB', key: 'size' },
+            { label: 'Age', description: 'as find -mtime: -7 modified within 7 days, +30 more than 30 days ago', key: 'age' },
+            { label: 'Owner', description: 'user name or numeric uid', key: 'owner' }
+        ];
+        const picked = await vscode.window.showQuickPick(items, { placeHolder: 'Mark files by attribute' });
+        if (!picked) return;
+        const parse = (value: string): MarkPredicate | undefined => {
+            if (picked.key === 'owner') return value.trim() ? byOwner(value, (uid) => FileItem._resolver.username(uid)) : undefined;
+            const test = picked.key === 'size' ? parseSizeTest(value.trim()) : parseAgeTest(value.trim());
+            if (!test) return undefined;
+            return picked.key === 'size' ? bySize(test) : byAge(test);
+        };
+        const value = await vscode.window.showInputBox({
+            prompt: `Mark files by ${picked.label.toLowerCase()} (${picked.description})`,
+            validateInput: (v) => parse(v) ? undefined : `Invalid ${picked.label.toLowerCase()}`
+        });
+        const predicate = value === undefined ? undefined : parse(value);
+        if (!predicate) return;
+        await markAndReport(predicate, `file with ${picked.label.toLowerCase()} ${value}`, `files with ${picked.label.toLowerCase()} ${value}`);
+    });
+    const commandMarkContent = vscode.commands.registerCommand("extension.dired.markContent", async (arg?: string) => {
+        const source = typeof arg === 'string' ? arg : await vscode.window.showInputBox({
+            prompt: 'Mark files whose contents match (regular expression)',
+            validateInput: validateRegExp
+        });
+        if (!source || validateRegExp(source)) return;
+        const pattern = new RegExp(source, 'm');
+        const count = await vscode.window.withProgress({
+            location: vscode.ProgressLocation.Window,
+            title: `Dired: searching for /${source}/`
+        }, () => provider.markWhere(byContent(pattern)));
+        try { vscode.window.setStatusBarMessage(`Dired: marked ${count} ${plural(count, 'file', 'files')} containing /${source}/`, 3000); } catch (e) { }
+    });
+    const commandSort = vscode.commands.registerCommand("extension.dired.sort", async () => {
+        if (!provider.dirname) return;
+        const cur = provider.getSortOrder();
+        type SortPickItem = vscode.QuickPickItem & { key?: SortKey, toggle?: 'reverse' | 'dirsFirst' };
+        const items: SortPickItem[] = SORT_KEYS.map((k) => ({
+            label: SORT_KEY_LABELS[k],
+            description: k === cur.key ? '(current)' : undefined,
+            key: k
+        }));
+        items.push({ label: 'Reverse order', description: cur.reverse ? 'on' : 'off', toggle: 'reverse' });
+        items.push({ label: 'Directories first', description: cur.dirsFirst ? 'on' : 'off', toggle: 'dirsFirst' });
+        const pick = await vscode.window.showQuickPick(items, { placeHolder: 'Sort Dired listing by' });
+        if (!pick) return;
+        const next = { ...cur };
+        if (pick.key) next.key = pick.key;
+        if (pick.toggle === 'reverse') next.reverse = !cur.reverse;
+        if (pick.toggle === 'dirsFirst') next.dirsFirst = !cur.dirsFirst;
+        await provider.setSortOrder(next);
+        vscode.window.setStatusBarMessage(`Dired: ${describeSortOrder(next)}`, 3000);
+    });
+    const commandCycleSort = vscode.commands.registerCommand("extension.dired.cycleSort", async () => {
+        if (!provider.dirname) return;
+        const next = await provider.cycleSortKey();
+        vscode.window.setStatusBarMessage(`Dired: ${describeSortOrder(next)}`, 3000);
+    });
+
 
     const commandCreateDir = vscode.commands.registerCommand("extension.dired.createDir", async () => {
+        if (refusedInTrash('Create directory')) return;
         const dirName = await vscode.window.showInputBox({ prompt: "Directory name" });
         if (!dirName) {
             return;
         }
-        // create and set lastAction so undo is possible
-        const cwd = provider.dirname;
+        const cwd = provider.currentDir;
         if (!cwd) {
             vscode.window.setStatusBarMessage('Cannot determine current directory to create directory in.', 5000);
             return;
         }
         const p = path.join(cwd, dirName);
         try {
+            const existed = fs.existsSync(p);
             await provider.createDir(dirName);
-            // record create action
-            await context.workspaceState.update('dired.lastAction', { type: 'create', path: p });
-            setTimeout(() => { /* refresh already done by provider.createDir */ }, 0);
-            vscode.window.setStatusBarMessage(`Created ${p} (undo available)`, 3000);
-            try { statusItem.text = `$(plus) Created ${path.basename(p)} — Undo`; statusItem.tooltip = `Remove ${p}`; statusItem.show(); } catch {}
-            vscode.window.setStatusBarMessage(`Created ${p}`, 3000);
+            // an existing directory was left alone, so there is nothing to undo
+            if (!existed) await history.record('create', `Create ${dirName}`, [{ type: 'create', path: p }]);
+            vscode.window.setStatusBarMessage(`Created ${p}${existed ? '' : ' (undo available)'}`, 3000);
         } catch (err) {
             vscode.window.setStatusBarMessage(`Failed to create directory ${p}: ${err}`, 5000);
         }
     });
-    const commandRename = vscode.commands.registerCommand("extension.dired.rename", () => {
-        vscode.window.showInputBox()
-            .then((newName: string) => {
-                provider.renameSelected(newName);
-            });
-    });
-    const commandCopy = vscode.commands.registerCommand("extension.dired.copy", () => {
-        const marked = provider.getMarkedPaths() || [];
-        // If multiple marked files exist, prompt for target directory and copy all
-        if (marked.length > 1) {
-            const cwd = provider.dirname || require('os').homedir();
-            const defaultDest = path.join(cwd, 'marked-copy');
-            vscode.window.showInputBox({ prompt: 'Copy marked files to directory', value: defaultDest })
-                .then(async (dest: string | undefined) => {
-                    if (!dest) return;
-                    try {
-                        await fs.promises.mkdir(dest, { recursive: true });
-                        for (const src of marked) {
-                            const destPath = path.join(dest, path.basename(src));
-                            try {
-                                await copyRecursive(src, destPath);
-                            } catch (e) {
-                                // try fallback copy per-file
-                                try { await fs.promises.copyFile(src, destPath); } catch (ee) { }
-                            }
-                        }
-                        vscode.window.setStatusBarMessage(`Copied ${marked.length} files to ${dest}`, 3000);
-                        try { await provider.notifyDirChanged(dest); } catch (e) { }
-                    } catch (err) {
-                        vscode.window.setStatusBarMessage(`Failed to copy marked files: ${err}`, 5000);
-                    }
-                });
+    // Emacs `R`: move the marked entries into a directory, or rename the
+    // entry at point when nothing is marked.
+    const commandRename = vscode.commands.registerCommand("extension.dired.rename", async () => {
+        // trash entries resolve to their original paths; restore them instead
+        if (refusedInTrash('Rename')) return;
+        if (provider.getMarkedPaths().length) {
+            await transferSelection('move');
             return;
         }
-
-        // Single file fallback: behave like before
         const selected = provider.getSelectedPath();
-        if (!selected) {
-            vscode.window.setStatusBarMessage('No file or folder selected to copy', 3000);
+        if (!selected || path.resolve(selected) === path.resolve(provider.currentDir || '')) {
+            vscode.window.setStatusBarMessage('No file or folder selected to rename', 3000);
             return;
         }
-        // Suggest a sensible default destination: same directory with "-copy" suffix
-        const cwd = provider.dirname || path.dirname(selected);
-        const basename = path.basename(selected);
-        const defaultDest = path.join(cwd, basename + '-copy');
-        vscode.window.showInputBox({ prompt: 'Copy to (absolute or relative path)', value: defaultDest })
-            .then((newName: string | undefined) => {
-                if (!newName) return;
-                provider.copySelected(newName);
-                vscode.window.setStatusBarMessage(`Copying to ${newName}`, 3000);
-            });
+        const name = path.basename(selected);
+        const newName = await vscode.window.showInputBox({ prompt: `Rename ${name} to`, value: name, valueSelection: [0, name.length - path.extname(name).length] });
+        if (!newName || newName === name) return;
+        await provider.renameSelected(newName);
+    });
+    // Copy or move the marked entries (or the entry at point). With
+    // `dired.dwimTarget`, directories of the other visible Dired editors are
+    // offered first as the destination.
+    // `copyOptions` overrides the `dired.copy*` settings for this copy.
+    async function transferSelection(op: 'copy' | 'move', copyOptions?: CopyOptions) {
+        if (refusedInTrash(op === 'copy' ? 'Copy' : 'Move')) return;
+        const marked = provider.getMarkedPaths() || [];
+        const selected = provider.getSelectedPath();
+        const sources = marked.length ? marked : (selected ? [selected] : []);
+        if (!sources.length) {
+            vscode.window.setStatusBarMessage(`No file or folder selected to ${op}`, 3000);
+            return;
+        }
+        const cwd = provider.currentDir || path.dirname(sources[0]);
+        const verb = op === 'copy' ? 'Copy' : 'Move';
+        const what = sources.length > 1 ? `${sources.length} marked files` : path.basename(sources[0]);
+        const useDwim = vscode.workspace.getConfiguration('dired').get<boolean>('dwimTarget', true);
+        const others = useDwim ? provider.otherPaneDirs() : [];
+        let input: string | undefined;
+        if (others.length) {
+            const candidates = others.map((dir) => ({ dir, description: 'other Dired pane' }));
+            if (candidates.every((c) => c.dir !== path.resolve(cwd))) candidates.push({ dir: path.resolve(cwd), description: 'current directory' });
+            input = await promptTarget(`${verb} ${what} to`, candidates, '');
+        } else {
+            // no other pane: suggest a sibling for a single copy, a directory otherwise
+            const value = sources.length > 1 ? path.join(cwd, `marked-${op}`)
+                : op === 'copy' ? path.join(cwd, path.basename(sources[0]) + '-copy') : sources[0];
+            input = await vscode.window.showInputBox({ prompt: `${verb} ${what} to (absolute or relative path)`, value });
+        }
+        if (!input) return;
+        let inputIsDir = false;
+        try { inputIsDir = (await fs.promises.stat(path.resolve(cwd, input))).isDirectory(); } catch (e) { /* new path */ }
+        const pairs = resolveTargets(sources, input, cwd, inputIsDir);
+        const targetPath = path.resolve(cwd, input);
+        const resolver = new ConflictResolver(conflictPolicyFor(targetPath));
+        // one hard-link map for all sources, so groups spanning them stay linked
+        const options: CopyOptions = { ...(copyOptions || provider.copyOptionsFor(targetPath)), linkGroups: new Map() };
+        // queued: the sources and destinations are refreshed when the job ends
+        const touched = pairs.map((p) => p.src).concat(pairs.map((p) => path.dirname(p.dest)));
+        if (op === 'move') touched.push(...pairs.map((p) => path.dirname(p.src)));
+        provider.jobs.enqueue(`${verb} ${what}`, touched, async (job) => {
+            let done = 0;
+            const failed: string[] = [];
+            // what can be undone: moves and copies, with the entries they replaced;
+            // a copy merged into an existing directory makes the operation not undoable
+            const steps: UndoStep[] = [];
+            let merged = 0;
+            const { progress, cancelled } = await withOperationProgress(`${verb} ${what}`, pairs.map((p) => p.src), async (progress) => {
+                if (op === 'move') {
+                    // the provider moves marks and cursor along
+                    const result = await provider.moveEntries(pairs, resolver.handler, progress);
+                    done = result.moved.length;
+                    steps.push(...moveSteps(result.moved));
+                    failed.push(...result.failed);
+                    return;
+                }
+                for (const { src, dest } of pairs) {
+                    if (path.resolve(src) === path.resolve(dest)) continue;
+                    await progress.checkpoint();
+                    progress.begin(src);
+                    if (isInside(dest, src)) {
+                        failed.push(`${path.basename(src)}: cannot copy a directory into itself`);
+                        progress.complete(src, false);
+                        continue;
+                    }
+                    try {
+                        await fs.promises.mkdir(path.dirname(dest), { recursive: true });
+                        const existed = fs.existsSync(dest);
+                        let backup: string | undefined;
+                        const written = await copyTree(src, dest, resolver.handler, progress, options, async (p) => {
+                            const staged = await provider.displaceToStaging(p);
+                            if (path.resolve(p) === path.resolve(dest)) backup = staged;
+                            return staged;
+                        });
+                        if (written) {
+                            if (backup) steps.push({ type: 'delete', path: path.resolve(dest), backup });
+                            if (backup || !existed || path.resolve(written) !== path.resolve(dest)) steps.push({ type: 'create', path: path.resolve(written) });
+                            else merged++;
+                        }
+                        done++;
+                        progress.complete(src);
+                    } catch (e) {
+                        if (e instanceof OperationCancelled) throw e;
+                        failed.push(`${path.basename(src)}: ${e}`);
+                        progress.complete(src, false);
+                    }
+                }
+            }, job);
+            // a cancelled operation can still be undone as far as it got
+            if (!merged) await history.record(op, `${verb} ${what}`, steps);
+            reportConflicts(verb, resolver);
+            if (cancelled) {
+                reportCancelled(verb, progress);
+                return;
+            }
+            const target = pairs.length > 1 || inputIsDir ? targetPath : pairs[0].dest;
+            if (failed.length) {
+                job.detail = `${done} done, ${failed.length} failed (${failed.join('; ')})`;
+                vscode.window.setStatusBarMessage(`${verb}: ${job.detail}`, 8000);
+            } else {
+                vscode.window.setStatusBarMessage(`${op === 'copy' ? 'Copied' : 'Moved'} ${what} to ${target}${merged ? ' (merged into existing directories, not undoable)' : ''}`, merged ? 5000 : 3000);
+            }
+        });
+    }
+    const commandCopy = vscode.commands.registerCommand("extension.dired.copy", (options?: CopyOptions) => transferSelection('copy', options));
+    // Copy after choosing what to preserve, starting from the settings.
+    const commandCopyWithOptions = vscode.commands.registerCommand("extension.dired.copyWithOptions", async () => {
+        const defaults = provider.copyOptionsFor(provider.currentDir || os.homedir());
+        type OptionItem = vscode.QuickPickItem & { key: 'preserveAttributes' | 'preserveHardLinks' | 'rewriteSymlinks' };
+        const items: OptionItem[] = [
+            { label: 'Preserve mode and timestamps', key: 'preserveAttributes', picked: !!defaults.preserveAttributes },
+            { label: 'Preserve hard links', key: 'preserveHardLinks', picked: !!defaults.preserveHardLinks },
+            { label: 'Rewrite links into the copied tree as relative links', key: 'rewriteSymlinks', picked: !!defaults.rewriteSymlinks },
+        ];
+        const picked = await vscode.window.showQuickPick(items, { canPickMany: true, placeHolder: 'Copy options (symbolic links and empty directories are always kept)' });
+        if (!picked) return;
+        const options: CopyOptions = { preserveAttributes: false, preserveHardLinks: false, rewriteSymlinks: false };
+        for (const item of picked) options[item.key] = true;
+        await transferSelection('copy', options);
     });
+    const commandMove = vscode.commands.registerCommand("extension.dired.move", () => transferSelection('move'));
 
     const commandDelete = vscode.commands.registerCommand("extension.dired.delete", async () => {
+        // in the trash buffer, deleting means purging
+        if (provider.inTrashBuffer) {
+            await vscode.commands.executeCommand('extension.dired.trashPurge');
+            return;
+        }
         const item = await vscode.window.showQuickPick(["Yes", "No"], { placeHolder: "Delete this file?" });
         if (item !== "Yes") return;
         // Determine marked selections first
@@ -406,94 +723,131 @@ export function activate(context: vscode.ExtensionContext) {
                 vscode.window.setStatusBarMessage('No file selected to delete', 3000);
                 return;
             }
-            // Prevent deleting the header directory itself
-            if (path.resolve(cwd) === path.resolve(selected)) {
+            // Prevent deleting the header directory itself (main or inserted section)
+            if (path.resolve(provider.currentDir || cwd) === path.resolve(selected)) {
                 vscode.window.setStatusBarMessage('Cannot delete the directory header', 3000);
                 return;
             }
-            try {
-                const stat = await fs.promises.stat(selected);
-                const isDir = stat.isDirectory();
-                // Create a backup copy to allow undo
-                const backupRoot = path.join(os.tmpdir(), 'vscode-dired-backup');
-                await fs.promises.mkdir(backupRoot, { recursive: true });
-                const backupName = `${Date.now()}-${Math.random().toString(36).slice(2,8)}-${path.basename(selected)}`;
-                const backupPath = path.join(backupRoot, backupName);
-                // Copy recursively to backup using module-level helper
-                await copyRecursive(selected, backupPath);
-
-                // Move original to OS Trash
+            // queued: the listing is refreshed when the job ends
+            provider.jobs.enqueue(`Delete ${path.basename(selected)}`, [selected, path.dirname(selected)], async (job) => {
                 try {
-                    await vscode.workspace.fs.delete(vscode.Uri.file(selected), { useTrash: true });
-                } catch (e) {
-                    // Fallback to fs rm if workspace API fails
-                    if (isDir) {
-                        try { await fs.promises.rm(selected, { recursive: true, force: true }); } catch { try { await fs.promises.rmdir(selected); } catch {} }
-                    } else {
-                        try { await fs.promises.unlink(selected); } catch {}
+                    let step: UndoStep | undefined;
+                    const { cancelled } = await withOperationProgress(`Delete ${path.basename(selected)}`, [selected], async (progress) => {
+                        progress.begin(selected);
+                        step = await provider.deletePath(selected, progress);
+                        progress.complete(selected);
+                    }, job, true);
+                    if (cancelled || !step) {
+                        vscode.window.setStatusBarMessage(`Delete cancelled, ${selected} was not deleted`, 5000);
+                        return;
                     }
+                    await history.record('delete', `Delete ${path.basename(selected)}`, [step]);
+                    history.expireBackups(retentionPolicy()).catch(() => { /* ignore */ });
+                    vscode.window.setStatusBarMessage(`Deleted ${selected} (undo available)`, 5000);
+                } catch (err) {
+                    vscode.window.setStatusBarMessage(`Failed to delete ${selected}: ${err}`, 5000);
+                    throw err;
                 }
-
-                // Remember last action for undo
-                setLastAction({ type: 'delete', path: selected, backup: backupPath, isDirectory: isDir });
-                // Notify provider to refresh that directory listing directly (avoids relying on this.dirname)
-                try { await provider.notifyDirChanged(path.dirname(selected)); } catch {}
-                vscode.window.setStatusBarMessage(`${selected} moved to Trash (undo available)`, 5000);
-            } catch (err) {
-                vscode.window.setStatusBarMessage(`Failed to delete ${selected}: ${err}`, 5000);
-            }
+            });
             return;
         }
 
-        // Multi-delete: copy all marked items into a single backup directory, then remove
-        try {
-            if (!cwd) {
-                vscode.window.setStatusBarMessage('No active directory for multi-delete', 3000);
-                return;
-            }
-            const markedFiltered = marked.filter(p => path.resolve(p) !== path.resolve(cwd));
-            if (markedFiltered.length === 0) {
-                vscode.window.setStatusBarMessage('No valid marked files to delete', 3000);
-                return;
-            }
-            const backupRoot = path.join(os.tmpdir(), 'vscode-dired-backup');
-            await fs.promises.mkdir(backupRoot, { recursive: true });
-            const backupName = `${Date.now()}-${Math.random().toString(36).slice(2,8)}-multi`;
-            const backupPath = path.join(backupRoot, backupName);
-            await fs.promises.mkdir(backupPath, { recursive: true });
-            for (const src of markedFiltered) {
-                const dest = path.join(backupPath, path.basename(src));
-                try {
-                    await copyRecursive(src, dest);
-                } catch (e) {
-                    // try per-file copy fallback
-                    try { await fs.promises.copyFile(src, dest); } catch (ee) { }
-                }
-            }
-            // Now delete originals (move to trash)
-            for (const src of markedFiltered) {
-                try {
-                    await vscode.workspace.fs.delete(vscode.Uri.file(src), { useTrash: true });
-                } catch (e) {
+        // Multi-delete: stage the marked items one at a time, so a cancel
+        // leaves the undo entry matching what was deleted
+        if (!cwd) {
+            vscode.window.setStatusBarMessage('No active directory for multi-delete', 3000);
+            return;
+        }
+        const markedFiltered = marked.filter(p => path.resolve(p) !== path.resolve(cwd));
+        if (markedFiltered.length === 0) {
+            vscode.window.setStatusBarMessage('No valid marked files to delete', 3000);
+            return;
+        }
+        // queued: the listings are refreshed when the job ends
+        const touched = markedFiltered.concat(markedFiltered.map((p) => path.dirname(p)));
+        provider.jobs.enqueue(`Delete ${markedFiltered.length} items`, touched, async (job) => {
+            const steps: UndoStep[] = [];
+            const failed: string[] = [];
+            const { progress, cancelled } = await withOperationProgress(`Delete ${markedFiltered.length} items`, markedFiltered, async (progress) => {
+                for (const src of markedFiltered) {
+                    await progress.checkpoint();
+                    progress.begin(src);
                     try {
-                        const stat = await fs.promises.stat(src);
-                        if (stat.isDirectory()) {
-                            try { await fs.promises.rm(src, { recursive: true, force: true }); } catch { try { await fs.promises.rmdir(src); } catch {} }
-                        } else {
-                            try { await fs.promises.unlink(src); } catch {}
-                        }
-                    } catch (ee) { /* ignore */ }
+                        steps.push(await provider.deletePath(src, progress));
+                        progress.complete(src);
+                    } catch (e) {
+                        if (e instanceof OperationCancelled) throw e;
+                        failed.push(`${path.basename(src)}: ${e}`);
+                        progress.complete(src, false);
+                    }
                 }
+            }, job, true);
+
+            // one entry for everything actually deleted, restored item by item
+            await history.record('delete', `Delete ${steps.length} items`, steps);
+            history.expireBackups(retentionPolicy()).catch(() => { /* ignore */ });
+            if (cancelled) {
+                reportCancelled('Delete', progress);
+            } else if (failed.length) {
+                job.detail = `${steps.length} deleted, ${failed.length} failed (${failed.join('; ')})`;
+                vscode.window.setStatusBarMessage(`Delete: ${job.detail}`, 8000);
+            } else {
+                vscode.window.setStatusBarMessage(`Deleted ${steps.length} items (undo available)`, 5000);
             }
+        });
+    });
 
-            // Record last action for undo: set path to the directory so restoreRecursive
-            // will copy backup contents back into the folder.
-            setLastAction({ type: 'delete', path: cwd, backup: backupPath, isDirectory: true });
-            try { await provider.notifyDirChanged(cwd); } catch (e) { }
-            vscode.window.setStatusBarMessage(`Deleted ${markedFiltered.length} items (undo available)`, 5000);
+    // Run a Git operation on the marked entries, or on the entry at point
+    async function runGitOnMarked(verb: string, op: (paths: string[]) => Promise<GitBatchResult>) {
+        if (refusedInTrash('Git commands')) return;
+        const marked = provider.getMarkedPaths();
+        const selected = provider.getSelectedPath();
+        const paths = marked.length ? marked : (selected ? [selected] : []);
+        if (!paths.length) {
+            vscode.window.setStatusBarMessage('No file selected', 3000);
+            return;
+        }
+        try {
+            const result = await op(paths);
+            try { await provider.notifyDirChanged(provider.dirname || path.dirname(paths[0])); } catch (e) { }
+            const skipped = result.skipped.length ? ` (${result.skipped.length} skipped)` : '';
+            vscode.window.setStatusBarMessage(`Dired: ${verb} ${result.done.length} item${result.done.length === 1 ? '' : 's'}${skipped}`, 3000);
         } catch (err) {
-            vscode.window.setStatusBarMessage(`Failed to delete marked files: ${err}`, 5000);
+            vscode.window.setStatusBarMessage(`Dired: git failed: ${err instanceof Error ? err.message : err}`, 5000);
         }
+    }
+    const commandGitStage = vscode.commands.registerCommand("extension.dired.gitStage", async () => {
+        await runGitOnMarked('staged', gitStage);
+    });
+    const commandGitUnstage = vscode.commands.registerCommand("extension.dired.gitUnstage", async () => {
+        await runGitOnMarked('unstaged', gitUnstage);
+    });
+    const commandGitDiscard = vscode.commands.registerCommand("extension.dired.gitDiscard", async () => {
+        const item = await vscode.window.showQuickPick(["Yes", "No"], { placeHolder: "Discard unstaged changes?" });
+        if (item !== "Yes") return;
+        await runGitOnMarked('discarded changes of', gitDiscard);
+    });
+
+    const commandJumpToLinkTarget = vscode.commands.registerCommand("extension.dired.jumpToLinkTarget", () => {
+        provider.jumpToLinkTarget();
+    });
+
+    const commandInsertSubdir = vscode.commands.registerCommand("extension.dired.insertSubdir", async () => {
+        if (refusedInTrash('Insert subdirectory')) return;
+        await provider.insertSubdir();
+    });
+    const commandRemoveSubdir = vscode.commands.registerCommand("extension.dired.removeSubdir", async () => {
+        await provider.removeSubdir();
+    });
+    const commandToggleSubtree = vscode.commands.registerCommand("extension.dired.toggleSubtree", async () => {
+        if (refusedInTrash('Expand subtree')) return;
+        await provider.toggleSubtree();
+    });
+    const commandNextSubdir = vscode.commands.registerCommand("extension.dired.nextSubdir", () => {
+        provider.nextSubdir();
+    });
+    const commandPrevSubdir = vscode.commands.registerCommand("extension.dired.prevSubdir", () => {
+        provider.prevSubdir();
     });
 
     const commandGoUpDir = vscode.commands.registerCommand("extension.dired.goUpDir", () => {
@@ -514,41 +868,66 @@ export function activate(context: vscode.ExtensionContext) {
             provider.toggleSelectCurrent();
         } catch (e) { /* ignore */ }
     });
+    const commandToggleMarks = vscode.commands.registerCommand("extension.dired.toggleMarks", () => {
+        const count = provider.toggleMarks();
+        vscode.window.setStatusBarMessage(`Dired: ${count} marked`, 1500);
+    });
+    const commandUnmarkAll = vscode.commands.registerCommand("extension.dired.unmarkAll", () => {
+        const count = provider.unmarkAll();
+        vscode.window.setStatusBarMessage(`Dired: removed ${count} mark${count === 1 ? '' : 's'}`, 1500);
+    });
+    const commandNextMarked = vscode.commands.registerCommand("extension.dired.nextMarked", () => {
+        provider.nextMarked();
+    });
+    const commandPrevMarked = vscode.commands.registerCommand("extension.dired.prevMarked", () => {
+        provider.prevMarked();
+    });
     const commandShowMarked = vscode.commands.registerCommand('extension.dired.showMarked', () => {
         try { debugUi.showMarkedInActiveBuffer(provider.getMarkedPaths()); } catch (e) { /* ignore */ }
     });
 
     // Helper to update decorations in the active Dired editor to highlight
     // the filename portion of marked items.
+    // Every visible Dired editor is decorated with the marks of its own buffer.
     function updateMarkedDecorations(editor?: vscode.TextEditor | undefined) {
-        try {
-            const ed = editor || vscode.window.activeTextEditor;
-            if (!ed || !ed.document || ed.document.uri.scheme !== DiredProvider.scheme) {
-                // clear decorations in any visible dired editors
-                for (const e of vscode.window.visibleTextEditors) {
-                    try { if (e.document && e.document.uri.scheme === DiredProvider.scheme) e.setDecorations(markedDecoration, []); } catch (er) { }
-                }
-                return;
-            }
-
-            // Derive directory from header like provider does
-            let header = ed.document.lineAt(0).text || '';
-            header = header.replace(/:\s*$/, '');
-            header = header.replace(/^Dired:\s*/, '').trim();
-            const dir = header || '.';
+        const editors = editor ? [editor] : vscode.window.visibleTextEditors;
+        for (const ed of editors) {
+            if (ed && ed.document && ed.document.uri.scheme === DiredProvider.scheme) decorateEditor(ed);
+        }
+    }
 
-            const marked = new Set(provider.getMarkedPaths().map(p => path.resolve(p)));
+    function decorateEditor(ed: vscode.TextEditor) {
+        try {
+            const marked = new Set(provider.getMarkedPaths(ed.document.uri).map(p => path.resolve(p)));
             const opts: vscode.DecorationOptions[] = [];
             const markerOpts: vscode.DecorationOptions[] = [];
-            for (let i = 1; i < ed.document.lineCount; i++) {
+            const brokenOpts: vscode.DecorationOptions[] = [];
+            const gitOpts = new Map<GitStatusKind, vscode.DecorationOptions[]>(GIT_STATUS_KINDS.map((k) => [k, []] as [GitStatusKind, vscode.DecorationOptions[]]));
+            const gitCleanOpts: vscode.DecorationOptions[] = [];
+            // Entries resolve against the section (main or inserted subdirectory) they belong to
+            for (const { line: i, item } of DiredProvider.entries(ed.document)) {
                 try {
                     const line = ed.document.lineAt(i).text;
-                    if (!line || !line.trim()) continue;
-                    const item = FileItem.parseLine(dir, line);
-                    if (!item || !item.fileName) continue;
-                    const abs = path.resolve(dir, item.fileName);
-                    if (!marked.has(abs)) continue;
                     const startCol = (typeof item.startColumn === 'number') ? item.startColumn : Math.max(0, line.lastIndexOf(item.fileName));
+                    if (item.isBrokenLink) {
+                        const linkRange = new vscode.Range(new vscode.Position(i, startCol), new vscode.Position(i, line.length));
+                        brokenOpts.push({ range: linkRange, hoverMessage: 'Broken symbolic link' });
+                    }
+                    const abs = path.resolve(item.path);
+                    if (provider.showGitStatus && item.fileName !== '.' && item.fileName !== '..') {
+                        const status = provider.gitStatusOf(abs, item.isDirectory);
+                        const at = new vscode.Range(new vscode.Position(i, 0), new vscode.Position(i, 0));
+                        if (status) {
+                            (gitOpts.get(status.kind) as vscode.DecorationOptions[]).push({
+                                range: at,
+                                hoverMessage: status.fromDescendant ? `Git: contains ${status.kind} files` : `Git: ${status.kind}`,
+                                renderOptions: { before: { contentText: status.code.replace(/ /g, '\u00a0') } }
+                            });
+                        } else {
+                            gitCleanOpts.push({ range: at });
+                        }
+                    }
+                    if (!marked.has(abs)) continue;
                     const range = new vscode.Range(new vscode.Position(i, startCol), new vscode.Position(i, startCol + item.fileName.length));
                     opts.push({ range, hoverMessage: 'Marked' });
                     // marker at line start
@@ -557,6 +936,9 @@ export function activate(context: vscode.ExtensionContext) {
             }
             ed.setDecorations(markedDecoration, opts);
             ed.setDecorations(markerDecoration, markerOpts);
+            ed.setDecorations(brokenLinkDecoration, brokenOpts);
+            for (const [kind, deco] of gitStatusDecorations) ed.setDecorations(deco, gitOpts.get(kind) || []);
+            ed.setDecorations(gitCleanDecoration, gitCleanOpts);
         } catch (e) { /* ignore errors while decorating */ }
     }
 
@@ -575,6 +957,7 @@ export function activate(context: vscode.ExtensionContext) {
     });
 
     const commandCreateFile = vscode.commands.registerCommand("extension.dired.createFile", async () => {
+        if (refusedInTrash('Create file')) return;
         async function completionFunc(filePathOrDirPath: string): Promise<Iterable<vscode.QuickPickItem>> {
             const items: vscode.QuickPickItem[] = [];
             let dirname: string | undefined;
@@ -630,6 +1013,7 @@ export function activate(context: vscode.ExtensionContext) {
         // Show chosen filename in the status bar rather than popup
         if (fileName) vscode.window.setStatusBarMessage(`${fileName}`, 3000);
         let isDirectory = false;
+        let created = false;
 
         try {
             const stat = await fs.promises.stat(fileName);
@@ -639,6 +1023,7 @@ export function activate(context: vscode.ExtensionContext) {
         catch {
             await fs.promises.mkdir(path.dirname(fileName), { recursive: true })
             await fs.promises.writeFile(fileName, "");
+            created = true;
         }
 
         if (isDirectory) {
@@ -646,11 +1031,7 @@ export function activate(context: vscode.ExtensionContext) {
         }
         else {
             await provider.createFile(fileName)
-            // record create action for undo
-            const cwd = provider.dirname;
-            const createdPath = path.isAbsolute(fileName) ? fileName : path.join(cwd || '', fileName);
-            await context.workspaceState.update('dired.lastAction', { type: 'create', path: createdPath });
-            try { statusItem.text = `$(plus) Created ${path.basename(createdPath)} — Undo`; statusItem.tooltip = `Remove ${createdPath}`; statusItem.show(); } catch {}
+            if (created) await history.record('create', `Create ${path.basename(fileName)}`, [{ type: 'create', path: path.resolve(fileName) }]);
         }
 
     });
@@ -709,14 +1090,41 @@ export function activate(context: vscode.ExtensionContext) {
         commandEnter,
         commandToggleDotFiles,
         commandToggleMetaFilesCmd,
+        commandToggleOmit,
+        commandMarkGitStatus,
+        commandMarkRegexp,
+        commandMarkExtension,
+        commandMarkDirectories,
+        commandMarkExecutables,
+        commandMarkSymlinks,
+        commandMarkByAttribute,
+        commandMarkContent,
+        commandToggleMarks,
+        commandUnmarkAll,
+        commandNextMarked,
+        commandPrevMarked,
+        commandShowJobs,
+        commandGitStage,
+        commandGitUnstage,
+        commandGitDiscard,
+        commandSort,
+        commandCycleSort,
         commandCreateDir,
         commandOpenTerminal,
         commandCreateFile,
         commandRename,
         commandCopy,
+        commandCopyWithOptions,
+        commandMove,
         commandToggleSelect,
         commandShowMarked,
         commandGoUpDir,
+        commandJumpToLinkTarget,
+        commandInsertSubdir,
+        commandRemoveSubdir,
+        commandToggleSubtree,
+        commandNextSubdir,
+        commandPrevSubdir,
         commandCopyName,
         commandRefresh,
         commandClose,
@@ -763,43 +1171,271 @@ export function activate(context: vscode.ExtensionContext) {
     });
     context.subscriptions.push(commandFindInFolder);
 
+    // find-dired: list the entries under a directory matching `find`-style
+    // arguments as a virtual Dired buffer
+    const commandFindDired = vscode.commands.registerCommand("extension.dired.findDired", async () => {
+        const at = vscode.window.activeTextEditor;
+        let start = provider.currentDir;
+        if (!start || !at || at.document.uri.scheme !== DiredProvider.scheme) {
+            start = at && at.document.uri.scheme === 'file' ? path.dirname(at.document.fileName) : (vscode.workspace.rootPath || os.homedir());
+        }
+        const root = await vscode.window.showInputBox({ prompt: 'Run find in directory', value: start });
+        if (!root) return;
+        try {
+            const st = await fs.promises.stat(root);
+            if (!st.isDirectory()) throw new Error('not a directory');
+        } catch (e) {
+            vscode.window.setStatusBarMessage(`find: ${root} is not a directory`, 3000);
+            return;
+        }
+        const lastArgs = context.workspaceState.get<string>('dired.lastFindArgs') || '-name "*"';
+        const args = await vscode.window.showInputBox({
+            prompt: 'Run find (with args)',
+            placeHolder: '-name "*.ts" -mtime -7 -not -path node_modules',
+            value: lastArgs
+        });
+        if (args === undefined) return;
+        await context.workspaceState.update('dired.lastFindArgs', args);
+        await provider.openFind(path.resolve(root), args);
+    });
+    context.subscriptions.push(commandFindDired);
+
+    // Trash browser (freedesktop trash): list, restore and purge trashed entries
+    const commandTrash = vscode.commands.registerCommand("extension.dired.trash", async () => {
+        if (process.platform !== 'linux') {
+            vscode.window.setStatusBarMessage('The trash browser supports the freedesktop trash (Linux) only', 5000);
+            return;
+        }
+        await provider.openTrash();
+    });
+    const commandTrashRestore = vscode.commands.registerCommand("extension.dired.trashRestore", async () => {
+        const entries = provider.selectedTrashEntries();
+        if (!entries.length) {
+            vscode.window.setStatusBarMessage('No trash entry selected to restore', 3000);
+            return;
+        }
+        const resolver = new ConflictResolver(conflictPolicyFor(entries[0].originalPath));
+        const failed: string[] = [];
+        let restored = 0;
+        for (const entry of entries) {
+            try {
+                if (await restoreTrashEntry(entry, resolver.handler, provider.displaceToStaging)) restored++;
+            } catch (e) {
+                failed.push(`${path.basename(entry.originalPath)}: ${e instanceof Error ? e.message : e}`);
+            }
+            try { await provider.notifyDirChanged(path.dirname(entry.originalPath)); } catch (e) { /* ignore */ }
+        }
+        await provider.refreshTrash();
+        reportConflicts('Restore', resolver);
+        if (failed.length) {
+            vscode.window.setStatusBarMessage(`Restore: ${restored} restored, ${failed.length} failed (${failed.join('; ')})`, 8000);
+        } else {
+            vscode.window.setStatusBarMessage(`Restored ${restored} item${restored === 1 ? '' : 's'} from the trash`, 3000);
+        }
+    });
+    const commandTrashPurge = vscode.commands.registerCommand("extension.dired.trashPurge", async () => {
+        const entries = provider.selectedTrashEntries();
+        if (!entries.length) {
+            vscode.window.setStatusBarMessage('No trash entry selected to purge', 3000);
+            return;
+        }
+        const what = entries.length === 1 ? path.basename(entries[0].originalPath) : `${entries.length} items`;
+        const confirm = await vscode.window.showWarningMessage(`Delete ${what} from the trash permanently?`, { modal: true }, 'Delete');
+        if (confirm !== 'Delete') return;
+        const failed: string[] = [];
+        for (const entry of entries) {
+            try {
+                await purgeTrashEntry(entry);
+            } catch (e) {
+                failed.push(`${path.basename(entry.originalPath)}: ${e instanceof Error ? e.message : e}`);
+            }
+        }
+        await provider.refreshTrash();
+        if (failed.length) vscode.window.setStatusBarMessage(`Purge: ${failed.length} failed (${failed.join('; ')})`, 8000);
+        else vscode.window.setStatusBarMessage(`Purged ${what}`, 3000);
+    });
+    context.subscriptions.push(commandTrash, commandTrashRestore, commandTrashPurge);
+
+    // wdired: buffers are read-only until edit mode is entered. Saving applies
+    // the edited file names; problems found on save are shown as diagnostics.
+    const wdiredDiagnostics = vscode.languages.createDiagnosticCollection('dired');
+    context.subscriptions.push(wdiredDiagnostics);
+    context.subscriptions.push(provider.onDidCheckEdit(({ uri, problems }) => {
+        wdiredDiagnostics.set(uri, problems.map((p) => {
+            const d = new vscode.Diagnostic(new vscode.Range(p.line, 0, p.line, Number.MAX_SAFE_INTEGER), p.message, vscode.DiagnosticSeverity.Error);
+            d.source = 'wdired';
+            return d;
+        }));
+    }));
+    const setEditContext = () => vscode.commands.executeCommand('setContext', 'dired.editing', provider.inEditMode);
+    const commandWdiredEdit = vscode.commands.registerCommand("extension.dired.wdiredEdit", () => {
+        if (!provider.startEdit()) {
+            vscode.window.setStatusBarMessage('This Dired buffer cannot be edited', 3000);
+            return;
+        }
+        setEditContext();
+        vscode.window.setStatusBarMessage('Dired: edit file names, then save to apply or abort with ctrl+x ctrl+k', 5000);
+    });
+    const commandWdiredCommit = vscode.commands.registerCommand("extension.dired.wdiredCommit", async () => {
+        const at = vscode.window.activeTextEditor;
+        if (!at || at.document.uri.scheme !== DiredProvider.scheme || !provider.inEditMode) return;
+        if (!at.document.isDirty) {
+            // nothing edited: just leave edit mode
+            provider.abortEdit(at.document.uri);
+        } else {
+            try { await at.document.save(); } catch (e) { /* the save reports its error */ }
+        }
+        setEditContext();
+    });
+    const commandWdiredAbort = vscode.commands.registerCommand("extension.dired.wdiredAbort", async () => {
+        const at = vscode.window.activeTextEditor;
+        if (!at || at.document.uri.scheme !== DiredProvider.scheme || !provider.abortEdit(at.document.uri)) return;
+        // re-read the listing, dropping the edits
+        try { await vscode.commands.executeCommand('workbench.action.files.revert'); } catch (e) { /* ignore */ }
+        setEditContext();
+        vscode.window.setStatusBarMessage('Dired: edit aborted', 3000);
+    });
+    context.subscriptions.push(commandWdiredEdit, commandWdiredCommit, commandWdiredAbort);
+    // Rename the marked entries (or every listed one) by a regular expression
+    // (see src/batchRename.ts). The old and new names are previewed and the
+    // renames are made all or nothing, as one undoable step.
+    const commandRenameRegexp = vscode.commands.registerCommand("extension.dired.renameRegexp", async () => {
+        if (provider.inTrashBuffer || provider.inEditMode) {
+            vscode.window.setStatusBarMessage('Batch rename is not available in this buffer', 3000);
+            return;
+        }
+        const marked = new Set(provider.getMarkedPaths().map((p) => path.resolve(p)));
+        const listed = provider.getListedPaths();
+        const targets = marked.size ? listed.filter((p) => marked.has(path.resolve(p))) : listed;
+        if (!targets.length) {
+            vscode.window.setStatusBarMessage('No entries to rename', 3000);
+            return;
+        }
+        const what = marked.size ? `${targets.length} marked entr${targets.length === 1 ? 'y' : 'ies'}` : `all ${targets.length} entries`;
+        const source = await vscode.window.showInputBox({
+            prompt: `Rename ${what}: regular expression matched against the names`,
+            placeHolder: 'e.g. IMG_(\\d+)\\.jpg',
+            validateInput: (value) => {
+                try { new RegExp(value); return undefined; } catch (e) { return e instanceof Error ? e.message : String(e); }
+            }
+        });
+        if (!source) return;
+        const pattern = new RegExp(source);
+        const replacement = await vscode.window.showInputBox({
+            prompt: `Replace /${source}/ with ($1 and \${name} groups, \\u \\l \\U \\L \\E case, \\# or \\#{3} counter)`,
+            placeHolder: 'e.g. photo-$1.jpg'
+        });
+        if (replacement === undefined) return;
+        let plan: WdiredPlan;
+        try {
+            plan = await planBatchRename(targets, pattern, replacement);
+        } catch (e) {
+            vscode.window.showErrorMessage(`Dired: invalid replacement: ${e instanceof Error ? e.message : e}`);
+            return;
+        }
+        if (!plan.renames.length && !plan.problems.length) {
+            vscode.window.setStatusBarMessage(`No names match /${source}/`, 3000);
+            return;
+        }
+        const renames: vscode.QuickPickItem[] = plan.renames.map((r) => ({ label: describeRename(r) }));
+        if (plan.problems.length) {
+            // show what collides; nothing is renamed
+            const problems: vscode.QuickPickItem[] = plan.problems.map((p) => ({ label: `$(error) ${path.basename(targets[p.line])}`, description: p.message }));
+            await vscode.window.showQuickPick(problems.concat(renames), { placeHolder: `${plan.problems.length} problem${plan.problems.length === 1 ? '' : 's'}; nothing was renamed` });
+            return;
+        }
+        const apply: vscode.QuickPickItem = { label: `$(check) Rename ${plan.renames.length} entr${plan.renames.length === 1 ? 'y' : 'ies'}` };
+        const picked = await vscode.window.showQuickPick([apply].concat(renames), { placeHolder: 'Preview of the new names; pick the first item to rename' });
+        if (picked !== apply) return;
+        const { moves, failed } = await renameAll(plan.renames, (from, to) => provider.movePath(from, to));
+        if (failed.length) {
+            vscode.window.showWarningMessage(`Dired: batch rename failed, nothing was renamed: ${failed.slice(0, 5).join('; ')}`);
+        } else {
+            await history.record('rename', `Rename ${plan.renames.length} entr${plan.renames.length === 1 ? 'y' : 'ies'} by /${source}/`,
+                moves.map(({ src, dest }): UndoStep => ({ type: 'move', src, dest })));
+            provider.followMoves(plan.renames);
+            vscode.window.setStatusBarMessage(`Renamed ${plan.renames.length} entr${plan.renames.length === 1 ? 'y' : 'ies'}`, 3000);
+        }
+        const dirs = new Set<string>();
+        plan.renames.forEach((r) => { dirs.add(path.dirname(r.src)); dirs.add(path.dirname(r.dest)); });
+        for (const dir of dirs) await provider.notifyDirChanged(dir);
+    });
+    context.subscriptions.push(commandRenameRegexp);
+    // a successful save leaves edit mode
+    context.subscriptions.push(vscode.workspace.onDidSaveTextDocument((doc) => {
+        if (doc.uri.scheme === DiredProvider.scheme) setEditContext();
+    }));
+
+    // Live narrowing: re-render the active listing with only the entries
+    // matching the typed pattern. Escape restores the previous filter.
+    const commandNarrow = vscode.commands.registerCommand("extension.dired.narrow", () => {
+        const at = vscode.window.activeTextEditor;
+        if (!at || at.document.uri.scheme !== DiredProvider.scheme) return;
+        const target = at.document.uri;
+        const previous = provider.getNarrowFilter(target);
+        const input = vscode.window.createInputBox();
+        input.title = 'Dired: Narrow listing';
+        input.prompt = 'Substring, glob (*.ts), ~fuzzy or /regex/; empty shows everything';
+        input.value = previous ? filterText(previous) : '';
+        let timer: NodeJS.Timeout | undefined;
+        let accepted = false;
+        const apply = (text: string) => {
+            const filter = parseFilter(text);
+            if (filter) {
+                try {
+                    compileFilter(filter);
+                } catch (e) {
+                    input.validationMessage = `Invalid pattern: ${e instanceof Error ? e.message : e}`;
+                    return;
+                }
+            }
+            input.validationMessage = undefined;
+            provider.setNarrowFilter(filter, target);
+        };
+        input.onDidChangeValue((text) => {
+            if (timer) clearTimeout(timer);
+            timer = setTimeout(() => apply(text), 150);
+        });
+        input.onDidAccept(() => {
+            accepted = true;
+            if (timer) clearTimeout(timer);
+            apply(input.value);
+            input.hide();
+        });
+        input.onDidHide(() => {
+            if (timer) clearTimeout(timer);
+            if (!accepted) provider.setNarrowFilter(previous, target);
+            input.dispose();
+        });
+        input.show();
+    });
+    const commandWiden = vscode.commands.registerCommand("extension.dired.widen", () => {
+        if (!provider.getNarrowFilter()) return;
+        provider.setNarrowFilter(undefined);
+        vscode.window.setStatusBarMessage('Dired: filter cleared', 2000);
+    });
+    context.subscriptions.push(commandNarrow, commandWiden);
+
     // Make filenames clickable in the Dired buffer (Ctrl/Cmd+Click)
     // Register a DocumentLinkProvider for the `dired` language that creates
-    // links for the filename column (column 52+) and targets either a file URI
+    // links for the filename column and targets either a file URI
     // or a `dired:` directory URI so clicking opens the file or navigates the folder.
     const linkProvider = vscode.languages.registerDocumentLinkProvider({ language: 'dired' }, {
         provideDocumentLinks(document: vscode.TextDocument): vscode.DocumentLink[] {
             const links: vscode.DocumentLink[] = [];
-            // Determine directory from header line (same logic as provider.dirname)
-            let header = document.lineAt(0).text || '';
-            header = header.replace(/:\s*$/, '');
-            header = header.replace(/^Dired:\s*/, '').trim();
-            const dir = header || undefined;
-
             // Create links for the document up to a safe cap (`dired.maxEntries`) so
             // links are immediately available. This avoids the complexity of trying
             // to force VS Code to re-run link providers on scroll.
             const cfg = vscode.workspace.getConfiguration('dired');
             const MAX_LINK_LINES = cfg.get<number>('maxEntries') || 5000;
             const endLine = Math.min(document.lineCount - 1, MAX_LINK_LINES);
-            for (let i = 1; i <= endLine; i++) {
-                const line = document.lineAt(i).text;
-                if (!line || !line.trim()) continue;
+            for (const { line: i, item } of DiredProvider.entries(document, 0, endLine + 1)) {
                 try {
-                    const item = FileItem.parseLine(dir || '.', line);
+                    const line = document.lineAt(i).text;
                     const fname = item.fileName;
-                    if (!fname) continue;
-                    // Determine filename start position by finding its last occurrence.
-                    let startCol = Math.max(0, (typeof item.startColumn === 'number') ? item.startColumn : line.lastIndexOf(fname));
-                    try {
-                        const timeMatch = line.match(/\d{2}:\d{2}/);
-                        if (timeMatch && typeof timeMatch.index === 'number') {
-                            // Find first non-space token after HH:MM; assume that's the filename start
-                            let pos = timeMatch.index + timeMatch[0].length;
-                            while (pos < line.length && line.charAt(pos) === ' ') pos++;
-                            if (pos < line.length) startCol = pos;
-                        }
-                    } catch (e) { /* ignore */ }
+                    // Prefer the parsed start column (exact for every column layout);
+                    // fall back to the last occurrence of the filename.
+                    const startCol = Math.max(0, (typeof item.startColumn === 'number') ? item.startColumn : line.lastIndexOf(fname));
                     if (startCol < 0) continue;
                     const startPos = new vscode.Position(i, startCol);
                     const endPos = new vscode.Position(i, startCol + fname.length);
@@ -817,6 +1453,14 @@ export function activate(context: vscode.ExtensionContext) {
     });
     context.subscriptions.push(linkProvider);
 
+    // Fold section listings and expanded directory trees
+    const foldingProvider = vscode.languages.registerFoldingRangeProvider({ language: 'dired' }, {
+        provideFoldingRanges(document: vscode.TextDocument): vscode.FoldingRange[] {
+            return DiredProvider.foldingRanges(document).map((r) => new vscode.FoldingRange(r.start, r.end));
+        }
+    });
+    context.subscriptions.push(foldingProvider);
+
     // Completion provider for the temporary "Dired open" editor.
     // It only returns items when the document's first line begins with "Dired open:"
     const editorPromptCompletion = vscode.languages.registerCompletionItemProvider({ scheme: 'dired-prompt' }, {
@@ -935,26 +1579,12 @@ export function activate(context: vscode.ExtensionContext) {
             vscode.window.showInformationMessage('Open a Dired buffer to debug link ranges.');
             return;
         }
-        const dirHeader = ed.document.lineAt(0).text.replace(/:\s*$/, '').replace(/^Dired:\s*/, '').trim();
-        const dir = dirHeader || '.';
         const lines: string[] = [];
-        for (let i = 1; i < Math.min(ed.document.lineCount, 200); i++) {
+        for (const { line: i, item } of DiredProvider.entries(ed.document, 0, 200)) {
             const line = ed.document.lineAt(i).text;
-            if (!line || !line.trim()) continue;
-            try {
-                const item = FileItem.parseLine(dir, line);
-                const fname = item.fileName;
-                let startCol = typeof item.startColumn === 'number' ? item.startColumn : line.lastIndexOf(fname);
-                // prefer occurrence after time token
-                const timeMatch = line.match(/\d{2}:\d{2}/);
-                if (timeMatch && typeof timeMatch.index === 'number') {
-                    const afterTimeIdx = line.indexOf(fname, timeMatch.index + timeMatch[0].length);
-                    if (afterTimeIdx >= 0) startCol = Math.max(startCol, afterTimeIdx);
-                }
-                lines.push(`${i}: startCol=${startCol} file='${fname}' line='${line}'`);
-            } catch (e) {
-                /* ignore */
-            }
+            const fname = item.fileName;
+            const startCol = typeof item.startColumn === 'number' ? item.startColumn : line.lastIndexOf(fname);
+            lines.push(`${i}: startCol=${startCol} file='${fname}' line='${line}'`);
         }
         const out = lines.join('\n');
         const channel = vscode.window.createOutputChannel('Dired Debug');
@@ -974,10 +1604,7 @@ export function activate(context: vscode.ExtensionContext) {
             const doc = e.textEditor.document;
             if (!doc || doc.uri.scheme !== DiredProvider.scheme) return;
             // derive directory from header line (same logic as link provider)
-            let header = doc.lineAt(0).text || '';
-            header = header.replace(/:\s*$/, '');
-            header = header.replace(/^Dired:\s*/, '').trim();
-            const dir = header || undefined;
+            const dir = DiredProvider.dirFromHeader(doc.lineAt(0).text) || undefined;
             if (!dir) return;
 
             const key = doc.uri.toString();
@@ -1015,46 +1642,123 @@ export function activate(context: vscode.ExtensionContext) {
         } catch (e) { /* ignore */ }
     }));
 
-    // When a dired document is closed, clear provider buffers to free memory
+    // Re-render open listings when the column layout changes
+    const configListener = vscode.workspace.onDidChangeConfiguration((e) => {
+        try {
+            if (e.affectsConfiguration('dired.listingSwitches')) {
+                provider.applyListingSwitches();
+                provider.refreshAll();
+            }
+            if (e.affectsConfiguration('dired.omitPatterns') || e.affectsConfiguration('dired.omitGitIgnored')) {
+                provider.refreshAll();
+            }
+            if (e.affectsConfiguration('dired.showGitStatus')) {
+                provider.setShowGitStatus(vscode.workspace.getConfiguration('dired').get<boolean>('showGitStatus') || false);
+            }
+        } catch (err) { /* ignore */ }
+    });
+    context.subscriptions.push(configListener);
+
+    // When a dired document is closed, release its buffer to free memory
     const closeListener = vscode.workspace.onDidCloseTextDocument((doc) => {
         try {
             if (doc && doc.uri && doc.uri.scheme === DiredProvider.scheme) {
-                try { provider.clearBuffers(); } catch (e) { /* ignore */ }
+                try { provider.releaseBuffer(doc.uri); } catch (e) { /* ignore */ }
+                try { wdiredDiagnostics.delete(doc.uri); } catch (e) { /* ignore */ }
             }
         } catch (e) { /* ignore */ }
     });
     context.subscriptions.push(closeListener);
 
-    const commandUndo = vscode.commands.registerCommand('extension.dired.undoLastAction', async () => {
-        const la = context.workspaceState.get<LastAction>('dired.lastAction') || null;
-        if (!la) {
-            vscode.window.setStatusBarMessage('No action to undo', 3000);
+    // Undo or redo `entry` once it is safe: nothing is overwritten, and files
+    // changed since the entry was applied are only touched after confirmation.
+    async function replayHistory(entry: UndoEntry, direction: UndoDirection) {
+        const verb = direction === 'undo' ? 'Undo' : 'Redo';
+        const { blocked, changed } = await history.check(entry, direction);
+        if (blocked.length) {
+            vscode.window.showWarningMessage(`Cannot ${direction} "${entry.label}": ${blocked.join('; ')}`);
             return;
         }
+        if (changed.length) {
+            const choice = await vscode.window.showWarningMessage(
+                `"${entry.label}": ${changed.join('; ')}. ${verb} anyway?`, { modal: true }, `${verb} anyway`);
+            if (choice !== `${verb} anyway`) return;
+        }
         try {
-            if (la.type === 'delete') {
-                // Restore from backup using module-level helper
-                if (la.backup) {
-                    await restoreRecursive(la.backup, la.path);
-                }
-                await context.workspaceState.update('dired.lastAction', null);
-                try { await provider.notifyDirChanged(path.dirname(la.path)); } catch {}
-                vscode.window.setStatusBarMessage(`Restored ${la.path}`, 5000);
-            } else if (la.type === 'create') {
-                // Undo create by moving to trash
-                try {
-                    await vscode.workspace.fs.delete(vscode.Uri.file(la.path), { useTrash: true });
-                } catch (e) {
-                    try { await fs.promises.unlink(la.path); } catch {}
-                }
-                await context.workspaceState.update('dired.lastAction', null);
-                try { await provider.notifyDirChanged(path.dirname(la.path)); } catch {}
-                vscode.window.setStatusBarMessage(`Removed ${la.path}`, 5000);
-            }
+            // a move staged with `git mv` is undone with `git mv`, even if
+            // `dired.useGit` was turned off since; untracked entries are renamed
+            const move = (from: string, to: string) => provider.movePath(from, to, undefined, undefined, undefined, direction === 'undo');
+            if (direction === 'undo') await history.undo(entry, move);
+            else await history.redo(entry, move);
+            vscode.window.setStatusBarMessage(`${verb}: ${entry.label}`, 5000);
         } catch (err) {
-            vscode.window.setStatusBarMessage(`Undo failed: ${err}`, 5000);
+            vscode.window.setStatusBarMessage(`${verb} failed: ${err instanceof Error ? err.message : err}`, 5000);
+        }
+        for (const dir of history.dirs(entry)) {
+            try { await provider.notifyDirChanged(dir); } catch (e) { /* ignore */ }
+        }
+    }
+    const commandUndo = vscode.commands.registerCommand('extension.dired.undoLastAction', async () => {
+        const entry = history.lastApplied;
+        if (!entry) {
+            vscode.window.setStatusBarMessage('No action to undo', 3000);
+            return;
+        }
+        await replayHistory(entry, 'undo');
+    });
+    const commandRedo = vscode.commands.registerCommand('extension.dired.redo', async () => {
+        const entry = history.lastUndone;
+        if (!entry) {
+            vscode.window.setStatusBarMessage('No action to redo', 3000);
+            return;
+        }
+        await replayHistory(entry, 'redo');
+    });
+    // Pick any entry of the history: an applied one is undone, an undone one redone.
+    const commandShowUndoHistory = vscode.commands.registerCommand('extension.dired.showUndoHistory', async () => {
+        type HistoryItem = vscode.QuickPickItem & { entry?: UndoEntry, clear?: boolean };
+        const entries = history.entries.reverse();
+        const items: HistoryItem[] = entries.map((entry) => ({
+            label: `$(${entry.undoneAt === undefined ? 'check' : 'discard'}) ${entry.label}`,
+            description: new Date(entry.time).toLocaleString(),
+            detail: entry.undoneAt === undefined ? 'applied, select to undo' : `undone ${new Date(entry.undoneAt).toLocaleTimeString()}, select to redo`,
+            entry
+        }));
+        if (!items.length) {
+            vscode.window.setStatusBarMessage('Dired: undo history is empty', 3000);
+            return;
+        }
+        items.push({ label: '$(clear-all) Clear history', clear: true });
+        const picked = await vscode.window.showQuickPick(items, { placeHolder: 'Dired undo history (newest first)', matchOnDescription: true });
+        if (!picked) return;
+        if (picked.clear) {
+            await history.clear();
+            return;
+        }
+        if (picked.entry) await replayHistory(picked.entry, picked.entry.undoneAt === undefined ? 'undo' : 'redo');
+    });
+    // Apply the retention policy to the staged deletions, or remove all of them.
+    const commandCleanupBackups = vscode.commands.registerCommand('extension.dired.cleanupBackups', async () => {
+        const policy = retentionPolicy();
+        const limits: string[] = [];
+        if (policy.maxAgeMs) limits.push(`older than ${Math.round(policy.maxAgeMs / 86400000)} days`);
+        if (policy.maxBytes) limits.push(`beyond ${formatSize(policy.maxBytes, 'si')}`);
+        const items = [
+            { label: 'Apply retention policy', description: limits.join(', ') || 'no limits set', all: false },
+            { label: 'Remove all delete backups', description: 'deleted items can no longer be restored', all: true }
+        ];
+        const picked = await vscode.window.showQuickPick(items, { placeHolder: 'Clean up Dired delete backups' });
+        if (!picked) return;
+        if (picked.all) {
+            const confirm = await vscode.window.showWarningMessage('Remove every delete backup? Undo of those deletes becomes impossible.', { modal: true }, 'Remove');
+            if (confirm !== 'Remove') return;
         }
+        const { removed, bytes } = await history.expireBackups(picked.all ? undefined : policy);
+        vscode.window.setStatusBarMessage(`Dired: removed ${removed} backup${removed === 1 ? '' : 's'} (${formatSize(bytes, 'si')})`, 5000);
     });
+    context.subscriptions.push(commandRedo, commandShowUndoHistory, commandCleanupBackups);
+    // Expire old backups, including the full copies earlier versions left in the temp directory
+    history.expireBackups(retentionPolicy()).catch(() => { /* ignore */ });
     context.subscriptions.push(commandUndo);
 
     vscode.window.onDidChangeActiveTextEditor((editor) => {
@@ -1069,6 +1773,7 @@ export function activate(context: vscode.ExtensionContext) {
             } else {
             vscode.commands.executeCommand('setContext', 'dired.open', false);
         }
+            vscode.commands.executeCommand('setContext', 'dired.editing', provider.inEditMode);
         } catch (e) { /* ignore logging or context errors */ }
     });
 
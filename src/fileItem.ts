@@ -9,8 +9,14 @@ const Mode = require('stat-mode');
 import DiredProvider from './provider';
 import { IDResolver } from './idResolver';
 import { pathToFileURL } from 'url';
+import { ListingFormat, DEFAULT_LISTING_SWITCHES, parseListingSwitches, pickTime, formatTime, formatSize, parseSize, sizeWidth, lineRegExp, LineField } from './listingFormat';
 
 
+// Separator between a symbolic link's name and its target, as in `ls -l`.
+const LINK_ARROW = ' -> ';
+// Indentation per level of an expanded directory tree, inserted after the mark column.
+export const TREE_INDENT = '  ';
+
 export default class FileItem {
 
     constructor(
@@ -28,21 +34,41 @@ export default class FileItem {
         private _min: number = 0,
         private _modeStr: string | undefined = undefined,
         private _selected: boolean = false,
-        private _startColumn: number | undefined = undefined) {}
+        private _startColumn: number | undefined = undefined,
+        // Epoch ms of the displayed timestamp; when set it is rendered using
+        // the configured time style instead of the month/day/hour/min fields.
+        private _timeMs: number | undefined = undefined,
+        // Target of a symbolic link as returned by readlink (may be relative).
+        private _linkTarget: string | undefined = undefined) {}
 
     static _resolver = new IDResolver();
 
-    public static create(dir: string, filename: string, stats: fs.Stats) {
+    // Column layout used by `line()` and `parseLine()`. Set by the provider
+    // from the `dired.listingSwitches` setting.
+    static format: ListingFormat = parseListingSwitches(DEFAULT_LISTING_SWITCHES);
+
+    // Timestamp token captured by `parseLine()`, re-rendered verbatim.
+    private _timeStr: string | undefined = undefined;
+
+    // Nesting level inside an expanded directory tree (0 for top-level entries).
+    private _depth = 0;
+
+    // `stats` should come from lstat so symbolic links are listed as links;
+    // pass the readlink result as `linkTarget` to render `name -> target`.
+    public static create(dir: string, filename: string, stats: fs.Stats, linkTarget?: string) {
         const mode = new Mode(stats);
         const os = require('os');
-            let username = FileItem._resolver.username(stats.uid) || undefined;
-            const groupname = FileItem._resolver.groupname(stats.gid) || undefined;
+        const fmt = FileItem.format;
+            let username = fmt.numericIds ? String(stats.uid) : (FileItem._resolver.username(stats.uid) || undefined);
+            const groupname = fmt.numericIds ? String(stats.gid) : (FileItem._resolver.groupname(stats.gid) || undefined);
             // On Windows, stats.uid/gid may be unavailable; fall back to the current
             // user's name (so the listing is not empty).
             if ((!username || username.trim().length === 0) && process.platform === 'win32') {
                 try { username = os.userInfo().username; } catch (e) { /* ignore */ }
             }
         const MONTHS = ['Jan','Feb','Mar','Apr','May','Jun','Jul','Aug','Sep','Oct','Nov','Dec'];
+        const timeMs = pickTime(stats, fmt.timeField);
+        const time = new Date(timeMs);
         const f = new FileItem(
             dir,
             filename,
@@ -51,12 +77,15 @@ export default class FileItem {
             username,
             groupname,
             stats.size,
-            MONTHS[stats.ctime.getMonth()],
-            stats.ctime.getDate(),
-            stats.ctime.getHours(),
-            stats.ctime.getMinutes(),
+            MONTHS[time.getMonth()],
+            time.getDate(),
+            time.getHours(),
+            time.getMinutes(),
             mode.toString(),
-            false);
+            false,
+            undefined,
+            timeMs,
+            stats.isSymbolicLink() ? linkTarget : undefined);
         // compute start column for filename in the formatted line
         try {
             const line = f.line();
@@ -73,48 +102,67 @@ export default class FileItem {
     get path(): string {
         return path.join(this._dirname, this._filename);
     }
+    // Directory the entry is listed in (its Dired section).
+    get dirname(): string {
+        return this._dirname;
+    }
     get fileName(): string {
         return this._filename;
     }
+    get isDirectory(): boolean {
+        return this._isDirectory;
+    }
+    // Epoch ms of the timestamp shown (see `dired.listingSwitches`), if known.
+    get timeMs(): number | undefined {
+        return this._timeMs;
+    }
+    get depth(): number {
+        return this._depth;
+    }
+    set depth(value: number) {
+        this._depth = Math.max(0, value);
+    }
 
     public line(): string {
+        const fmt = FileItem.format;
         // Use '-' as a placeholder so `parseLine` regex which expects non-space tokens
         // can still match username/group fields when values are absent. This also
         // ensures column positions are consistent when username/group are missing.
         const u = this._username && this._username.length ? this._username : '-';
         const g = this._groupname && this._groupname.length ? this._groupname : '-';
-        const fsize = this.formatSize(this._size);
-        const size = this.padStr(fsize, 8, " ");
-        const month = (typeof this._month === 'number') ? this.pad(this._month, 2, "0") : ((this._month + "   ").substring(0, 3));
-        const day = this.pad(this._day, 2, "0");
-        const hour = this.pad(this._hour, 2, "0");
-        const min = this.pad(this._min, 2, "0");
+        const fsize = formatSize(this._size, fmt.sizeStyle);
+        const size = this.padStr(fsize, sizeWidth(fmt.sizeStyle), " ");
         let se = " ";
         if (this._selected) {
             se = "*";
         }
-        const prefix = `${se} ${this._modeStr} ${u} ${g} ${size} ${month} ${day} ${hour}:${min} `;
+        let prefix = `${se} ${TREE_INDENT.repeat(this._depth)}${this._modeStr} `;
+        if (fmt.showOwner) prefix += `${u} `;
+        if (fmt.showGroup) prefix += `${g} `;
+        prefix += `${size} ${this.timeText()} `;
         // Store start column of filename in the item so callers can accurately
         // compute link ranges and cursor positions without re-scanning the line.
         try { this._startColumn = prefix.length; } catch (e) { /* ignore */ }
+        if (this._linkTarget !== undefined) {
+            return `${prefix}${this._filename}${LINK_ARROW}${this._linkTarget}`;
+        }
         return `${prefix}${this._filename}`;
     }
 
-    // Format file sizes in a human-friendly binary/decimal form.
-    // e.g., 532 -> "532", 5500 -> "5.5K", 1234567 -> "1.2M"
+    private timeText(): string {
+        if (this._timeStr !== undefined) return this._timeStr;
+        if (this._timeMs !== undefined) return formatTime(this._timeMs, FileItem.format.timeStyle);
+        const month = (typeof this._month === 'number') ? this.pad(this._month, 2, "0") : ((this._month + "   ").substring(0, 3));
+        const day = this.pad(this._day, 2, "0");
+        const hour = this.pad(this._hour, 2, "0");
+        const min = this.pad(this._min, 2, "0");
+        return `${month} ${day} ${hour}:${min}`;
+    }
+
+    // Format file sizes using the configured size style.
+    // e.g., 532 -> "532", 5500 -> "5.5K"
     public formatSize(bytes: number): string {
-        if (bytes === undefined || bytes === null) return ''; 
-        if (bytes < 1000) return String(bytes);
-        const units = ['K', 'M', 'G', 'T', 'P'];
-        let value = bytes;
-        let unitIndex = -1;
-        while (value >= 1000 && unitIndex < units.length - 1) {
-            value = value / 1000;
-            unitIndex++;
-        }
-        // Format with one decimal if <10, otherwise no decimals
-        const formatted = (value < 10 && Math.round(value * 10) / 10 !== Math.round(value)) ? value.toFixed(1) : Math.round(value).toString();
-        return `${formatted}${units[unitIndex]}`;
+        return formatSize(bytes, FileItem.format.sizeStyle);
     }
 
     // Pad a string to a required width
@@ -125,7 +173,53 @@ export default class FileItem {
     }
 
     public static parseLine(dir: string, line: string): FileItem {
-        // Robust regex to parse our formatted line. This supports 3-letter months
+        const normalize = (s: string | undefined) => {
+            if (!s) return undefined;
+            const t = s.trim().toLowerCase();
+            if (t === 'undefined' || t === 'null' || t === '-') return undefined;
+            return s;
+        }
+        // Parse with the regex matching the configured column layout first.
+        const layout = lineRegExp(FileItem.format);
+        const lm = layout.re.exec(line);
+        if (lm) {
+            const field = (name: LineField) => {
+                const idx = layout.fields.indexOf(name);
+                return idx >= 0 ? lm[idx + 1] : undefined;
+            };
+            const modeStr = field('mode') || '';
+            const nameColumn = field('name') || '';
+            let filename = nameColumn;
+            let linkTarget: string | undefined = undefined;
+            if (modeStr.substring(0, 1) === 'l') {
+                const arrow = nameColumn.indexOf(LINK_ARROW);
+                if (arrow >= 0) {
+                    filename = nameColumn.substring(0, arrow);
+                    linkTarget = nameColumn.substring(arrow + LINK_ARROW.length);
+                }
+            }
+            const item = new FileItem(
+                dir,
+                filename,
+                modeStr.substring(0, 1) === 'd',
+                modeStr.substring(0, 1) === '-',
+                normalize(field('owner')),
+                normalize(field('group')),
+                parseSize(field('size') || '0'),
+                0, 0, 0, 0,
+                modeStr,
+                field('mark') === '*',
+                // the name column is the last one, so it ends with the line
+                line.length - nameColumn.length,
+                undefined,
+                linkTarget);
+            item._timeStr = field('time');
+            // Only spaces precede the mode column, so its offset gives the tree indentation
+            const indent = line.indexOf(modeStr) - 2;
+            item._depth = indent > 0 ? Math.floor(indent / TREE_INDENT.length) : 0;
+            return item;
+        }
+        // Robust regex to parse the historical fixed layout. This supports 3-letter months
         // and a numeric month token as fallback.
         const re = /^\s*(\*?)\s+([\-d][rwx\-]{9})\s+(\S+)\s+(\S+)\s+(\S+)\s+(\S+)\s+(\d+)\s+(\d+):(\d+)\s+(.+)$/;
         const exec = re.exec(line);
@@ -149,15 +243,9 @@ export default class FileItem {
         }
         const isSelected = m[1] === '*';
         const modeStr = m[2];
-        const normalize = (s: string | undefined) => {
-            if (!s) return undefined;
-            const t = s.trim().toLowerCase();
-            if (t === 'undefined' || t === 'null' || t === '-') return undefined;
-            return s;
-        }
         const username = normalize(m[3]);
         const groupname = normalize(m[4]);
-        const size = FileItem.parseSizeString(m[5] || '0');
+        const size = parseSize(m[5] || '0');
         const monthToken = m[6];
         const day = parseInt(m[7] || '0', 10);
         const hour = parseInt(m[8] || '0', 10);
@@ -175,34 +263,24 @@ export default class FileItem {
                 if (rel >= 0) startCol = matchIndex + rel;
             }
         } catch (e) { /* ignore */ }
-        if (startCol === undefined) {
-            // Fallback: build a FileItem and compute its `line()` and pick lastIndexOf there.
-            try {
-                const fallback = new FileItem(dir, filename, isDirectory, isFile, username, groupname, size, monthToken, day, hour, min, modeStr, isSelected, undefined);
-                const sline = fallback.line();
-                const idx = sline.lastIndexOf(filename);
-                if (idx >= 0) startCol = idx;
-            } catch (e) { /* ignore */ }
-        }
         return new FileItem(dir, filename, isDirectory, isFile, username, groupname, size, monthToken, day, hour, min, modeStr, isSelected, startCol);
     }
 
-    private static parseSizeString(s: string): number {
-        if (!s) return 0;
-        s = s.trim();
-        const units: { [k: string]: number } = { 'K': 1e3, 'M': 1e6, 'G': 1e9, 'T': 1e12, 'P': 1e15 };
-        const last = s.substring(s.length - 1).toUpperCase();
-        if (units[last]) {
-            const num = parseFloat(s.substring(0, s.length - 1));
-            if (isNaN(num)) return 0;
-            return Math.round(num * units[last]);
-        }
-        const n = parseInt(s, 10);
-        return isNaN(n) ? 0 : n;
-    }
-
     public get uri(): vscode.Uri | undefined {
         const p = path.join(this._dirname, this._filename);
+        if (this._linkTarget !== undefined) {
+            // Follow the link: directories open in Dired, files in an editor.
+            const target = this.linkTargetPath;
+            if (!target) return undefined;
+            try {
+                const st = fs.statSync(target);
+                if (st.isDirectory()) return vscode.Uri.file(target).with({ scheme: DiredProvider.scheme });
+                return vscode.Uri.parse(pathToFileURL(target).href);
+            } catch (e) {
+                // broken link
+                return undefined;
+            }
+        }
         if (this._isDirectory) {
             // Convert the file path into a dired: scheme uri while keeping path information.
             return vscode.Uri.file(p).with({ scheme: DiredProvider.scheme });
@@ -213,6 +291,27 @@ export default class FileItem {
         return undefined;
     }
 
+    public get isSymbolicLink(): boolean {
+        return this._linkTarget !== undefined || (this._modeStr || '').substring(0, 1) === 'l';
+    }
+
+    public get linkTarget(): string | undefined {
+        return this._linkTarget;
+    }
+
+    // Absolute path the link points to (resolved against the link's directory).
+    public get linkTargetPath(): string | undefined {
+        if (this._linkTarget === undefined) return undefined;
+        return path.resolve(this._dirname, path.dirname(this._filename), this._linkTarget);
+    }
+
+    // True when this entry is a symbolic link whose target does not exist.
+    public get isBrokenLink(): boolean {
+        if (!this.isSymbolicLink) return false;
+        // existsSync follows the link and reports false for dangling targets
+        try { return !fs.existsSync(this.path); } catch (e) { return true; }
+    }
+
     public get startColumn(): number | undefined {
         return this._startColumn;
     }
@@ -0,0 +1,215 @@
+'use strict';
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+// Filesystem operations behind Dired's copy and rename/move (`R`).
+
+// True when `child` is `parent` itself or lies below it.
+export function isInside(child: string, parent: string): boolean {
+    const c = path.resolve(child);
+    const p = path.resolve(parent);
+    return c === p || c.startsWith(p.endsWith(path.sep) ? p : p + path.sep);
+}
+
+// Decides what happens when a destination already exists: resolves to the
+// path to write (`dest` itself to replace it, or another name to keep both)
+// or undefined to skip the entry.
+export type ConflictHandler = (src: string, dest: string) => Promise<string | undefined>;
+
+// Takes an existing entry that is about to be overwritten out of the way,
+// e.g. into the delete staging area, and resolves where it was put.
+export type Displacer = (dest: string) => Promise<string>;
+
+// Receives per-file progress from `copyTree` and `moveEntry`. `checkpoint`
+// runs between two files: it may wait (paused) or throw (cancelled).
+export interface TreeProgress {
+    fileDone(bytes: number): void;
+    checkpoint(): Promise<void>;
+}
+
+async function lstatOrUndefined(p: string): Promise<fs.Stats | undefined> {
+    try {
+        return await fs.promises.lstat(p);
+    } catch (e) {
+        return undefined;
+    }
+}
+
+// Settle a conflict at `dest` before writing `src` there. Resolves the path to
+// write, with anything being replaced already set aside by `displace` (or,
+// without one, removed), or undefined to skip.
+async function claimDestination(src: string, dest: string, onConflict?: ConflictHandler, displace?: Displacer): Promise<string | undefined> {
+    if (!(await lstatOrUndefined(dest))) return dest;
+    // without a handler the destination is replaced, as `rename` would do
+    const target = onConflict ? await onConflict(src, dest) : dest;
+    if (target === undefined) return undefined;
+    if (path.resolve(target) === path.resolve(dest)) {
+        if (displace) await displace(dest);
+        else await fs.promises.rm(dest, { recursive: true, force: true });
+    }
+    return target;
+}
+
+// How faithfully `copyTree` reproduces the source. Empty directories and
+// symbolic links (as links) are always copied.
+export interface CopyOptions {
+    // mode bits and access/modification times of files, links and directories
+    preserveAttributes?: boolean;
+    // files hard-linked to each other are copied once and linked again
+    preserveHardLinks?: boolean;
+    // links pointing into the copied tree get a relative target into the copy
+    rewriteSymlinks?: boolean;
+    // hard-link groups seen so far (`dev:ino` to the first copy); share one map
+    // between the `copyTree` calls of an operation to keep groups spanning
+    // several sources
+    linkGroups?: Map<string, string>;
+}
+
+// What moves (across filesystems) and delete backups use: everything that
+// can be preserved is, and link targets are kept as they are.
+export const FAITHFUL_COPY: CopyOptions = { preserveAttributes: true, preserveHardLinks: true };
+
+interface CopyContext {
+    onConflict?: ConflictHandler;
+    displace?: Displacer;
+    progress?: TreeProgress;
+    options: CopyOptions;
+    linkGroups: Map<string, string>;
+    // the top-level source and destination, for rewriting link targets
+    srcRoot: string;
+    destRoot: string;
+}
+
+// Copy `src` to `dest` recursively, keeping symbolic links as links. A
+// directory is merged into an existing directory; every other existing
+// destination is handed to `onConflict`; what it overwrites goes to
+// `displace`. `options` selects what else is preserved. Resolves where `src`
+// was copied to, or undefined when skipped.
+export async function copyTree(src: string, dest: string, onConflict?: ConflictHandler, progress?: TreeProgress, options: CopyOptions = {}, displace?: Displacer): Promise<string | undefined> {
+    return copyEntry(src, dest, {
+        onConflict, displace, progress, options,
+        linkGroups: options.linkGroups || new Map(),
+        srcRoot: path.resolve(src),
+        destRoot: path.resolve(dest)
+    });
+}
+
+async function copyEntry(src: string, dest: string, ctx: CopyContext): Promise<string | undefined> {
+    const sstat = await fs.promises.lstat(src);
+    if (sstat.isDirectory()) {
+        const dstat = await lstatOrUndefined(dest);
+        let target: string | undefined = dest;
+        if (dstat && !dstat.isDirectory()) {
+            target = await claimDestination(src, dest, ctx.onConflict, ctx.displace);
+            if (target === undefined) return undefined;
+        }
+        // attributes of a directory merged into are left alone
+        const created = !dstat || !dstat.isDirectory();
+        await fs.promises.mkdir(target, { recursive: true });
+        // in name order, so conflict prompts come in the order of the listing
+        for (const name of (await fs.promises.readdir(src)).sort()) {
+            await copyEntry(path.join(src, name), path.join(target, name), ctx);
+        }
+        // after the children, which change the mtime and may need write access
+        if (created && ctx.options.preserveAttributes) await copyAttributes(sstat, target, false);
+        return target;
+    }
+    if (ctx.progress) await ctx.progress.checkpoint();
+    const target = await claimDestination(src, dest, ctx.onConflict, ctx.displace);
+    if (target === undefined) return undefined;
+    if (sstat.isSymbolicLink()) {
+        let link = await fs.promises.readlink(src);
+        if (ctx.options.rewriteSymlinks) link = rewriteLinkTarget(link, src, target, ctx.srcRoot, ctx.destRoot);
+        await fs.promises.symlink(link, target);
+        if (ctx.options.preserveAttributes) await copyAttributes(sstat, target, true);
+    } else {
+        const group = `${sstat.dev}:${sstat.ino}`;
+        const first = ctx.options.preserveHardLinks && sstat.nlink > 1 ? ctx.linkGroups.get(group) : undefined;
+        if (first) {
+            // the new link shares the attributes of the first copy
+            await fs.promises.link(first, target);
+        } else {
+            await fs.promises.copyFile(src, target);
+            if (ctx.options.preserveAttributes) await copyAttributes(sstat, target, false);
+            if (ctx.options.preserveHardLinks && sstat.nlink > 1) ctx.linkGroups.set(group, target);
+        }
+    }
+    if (ctx.progress) ctx.progress.fileDone(sstat.size);
+    return target;
+}
+
+// Give `target` the mode and times of `st`. Links only get their times, and
+// only where the platform supports `lutimes`.
+async function copyAttributes(st: fs.Stats, target: string, isLink: boolean) {
+    if (isLink) {
+        try { await fs.promises.lutimes(target, st.atime, st.mtime); } catch (e) { /* unsupported */ }
+        return;
+    }
+    await fs.promises.utimes(target, st.atime, st.mtime);
+    await fs.promises.chmod(target, st.mode & 0o7777);
+}
+
+// Target for the copy at `linkDest` of the link `linkSrc` reading `target`:
+// a target inside `srcRoot` becomes a relative path to the same place below
+// `destRoot`; any other target is returned unchanged.
+export function rewriteLinkTarget(target: string, linkSrc: string, linkDest: string, srcRoot: string, destRoot: string): string {
+    const resolved = path.resolve(path.dirname(linkSrc), target);
+    if (!isInside(resolved, srcRoot)) return target;
+    const inCopy = path.join(destRoot, path.relative(srcRoot, resolved));
+    return path.relative(path.dirname(linkDest), inCopy) || '.';
+}
+
+// Move `src` to `dest`, creating missing parent directories. A rename across
+// filesystems (`EXDEV`) falls back to copy and delete. Moving a directory into
+// itself is refused. An existing destination is handed to `onConflict` and,
+// when overwritten, to `displace`. `rename` performs the plain rename step
+// and may be replaced, e.g. by `git mv`. Resolves where the entry ended up,
+// or undefined when skipped. `progress` only sees files copied by the
+// cross-device fallback, which is also where cancellation takes effect.
+export async function moveEntry(src: string, dest: string,
+    rename: (from: string, to: string) => Promise<void> = (from, to) => fs.promises.rename(from, to),
+    onConflict?: ConflictHandler, progress?: TreeProgress, displace?: Displacer): Promise<string | undefined> {
+    const from = path.resolve(src);
+    let to = path.resolve(dest);
+    if (from === to) return to;
+    if (isInside(to, from)) {
+        throw new Error(`cannot move ${from} into itself`);
+    }
+    await fs.promises.mkdir(path.dirname(to), { recursive: true });
+    if (onConflict) {
+        const claimed = await claimDestination(from, to, onConflict, displace);
+        if (claimed === undefined) return undefined;
+        to = path.resolve(claimed);
+    }
+    try {
+        await rename(from, to);
+    } catch (e) {
+        if ((e as NodeJS.ErrnoException).code !== 'EXDEV') throw e;
+        let existed = true;
+        try { await fs.promises.lstat(to); } catch (ee) { existed = false; }
+        try {
+            await copyTree(from, to, undefined, progress, FAITHFUL_COPY);
+        } catch (copyErr) {
+            // leave the source untouched and no partial copy behind
+            if (!existed) {
+                try { await fs.promises.rm(to, { recursive: true, force: true }); } catch (ee) { /* ignore */ }
+            }
+            throw copyErr;
+        }
+        await fs.promises.rm(from, { recursive: true, force: true });
+    }
+    return to;
+}
+
+// Where a path ends up after `moves` ({src, dest} pairs): itself when it was
+// not moved, the new location of a moved entry or of anything below it.
+export function movedPath(p: string, moves: { src: string, dest: string }[]): string {
+    const abs = path.resolve(p);
+    for (const { src, dest } of moves) {
+        const from = path.resolve(src);
+        if (abs === from) return path.resolve(dest);
+        if (abs.startsWith(from + path.sep)) return path.join(path.resolve(dest), abs.substring(from.length + 1));
+    }
+    return abs;
+}
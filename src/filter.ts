@@ -0,0 +1,75 @@
+'use strict';
+
+import { globToRegExp } from './glob';
+
+// Narrowing filters for Dired listings. The typed pattern picks its mode:
+//   /re/    regular expression (the closing slash is optional)
+//   ~abc    fuzzy: the characters appear in order, not necessarily adjacent
+//   *.ts    glob, when the pattern contains *, ? or [
+//   abc     case-insensitive substring otherwise
+
+export type FilterMode = 'substring' | 'glob' | 'fuzzy' | 'regex';
+
+export interface NameFilter {
+    mode: FilterMode;
+    pattern: string;
+}
+
+export function parseFilter(text: string): NameFilter | undefined {
+    if (!text) return undefined;
+    if (text.length > 1 && text.charAt(0) === '/') {
+        const body = text.endsWith('/') && text.length > 2 ? text.substring(1, text.length - 1) : text.substring(1);
+        return { mode: 'regex', pattern: body };
+    }
+    if (text.charAt(0) === '~') {
+        return text.length > 1 ? { mode: 'fuzzy', pattern: text.substring(1) } : undefined;
+    }
+    if (/[*?[]/.test(text)) return { mode: 'glob', pattern: text };
+    return { mode: 'substring', pattern: text };
+}
+
+// Text to put back into the input box for an existing filter.
+export function filterText(filter: NameFilter): string {
+    switch (filter.mode) {
+        case 'regex': return `/${filter.pattern}/`;
+        case 'fuzzy': return `~${filter.pattern}`;
+        default: return filter.pattern;
+    }
+}
+
+export function fuzzyMatch(pattern: string, name: string): boolean {
+    const p = pattern.toLowerCase();
+    const n = name.toLowerCase();
+    let j = 0;
+    for (let i = 0; i < n.length && j < p.length; i++) {
+        if (n.charAt(i) === p.charAt(j)) j++;
+    }
+    return j === p.length;
+}
+
+// Build a predicate over file names. Throws on an invalid regular expression.
+export function compileFilter(filter: NameFilter): (name: string) => boolean {
+    switch (filter.mode) {
+        case 'regex': {
+            const re = new RegExp(filter.pattern, 'i');
+            return (name) => re.test(name);
+        }
+        case 'glob': {
+            const re = globToRegExp(filter.pattern, true);
+            // globs match the last path component so find-dired relative paths work too
+            return (name) => re.test(name.substring(name.replace(/\\/g, '/').lastIndexOf('/') + 1));
+        }
+        case 'fuzzy':
+            return (name) => fuzzyMatch(filter.pattern, name);
+        case 'substring':
+        default: {
+            const needle = filter.pattern.toLowerCase();
+            return (name) => name.toLowerCase().indexOf(needle) >= 0;
+        }
+    }
+}
+
+// Header indicator, e.g. `[filter: glob *.ts]`.
+export function describeFilter(filter: NameFilter): string {
+    return `[filter: ${filter.mode} ${filterText(filter)}]`;
+}
@@ -0,0 +1,204 @@
+'use strict';
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { globToRegExp, matchGlob } from './glob';
+
+// find-dired: a subset of `find` expressions used to build virtual Dired
+// buffers from search results, e.g. `-name "*.ts" -mtime -7 -not -path node_modules`.
+//   -name GLOB / -iname GLOB   basename glob (case-insensitive with -iname)
+//   -regex RE / -iregex RE     regex matched against the relative path
+//   -path GLOB                 glob matched against the relative path
+//   -type f|d|l                regular file, directory or symbolic link
+//   -size [+-]N[c|k|M|G]       larger/smaller than N (1024-based units, bytes without unit)
+//   -mtime [+-]N, -mmin [+-]N  modified more/less than N days/minutes ago
+//   -not/! -name|-path GLOB    exclude matching entries; excluded directories are not descended
+// A bare word is treated as `-name WORD`.
+
+export type FindType = 'f' | 'd' | 'l';
+
+export interface NumericTest {
+    // '+' more than, '-' less than, '=' exactly
+    op: '+' | '-' | '=';
+    value: number;
+    // size of one unit of `value`; '=' compares whole units
+    unit: number;
+}
+
+export interface FindCriteria {
+    names: RegExp[];
+    paths: RegExp[];
+    type?: FindType;
+    size?: NumericTest;
+    // age in milliseconds
+    age?: NumericTest;
+    excludes: string[];
+}
+
+export interface FindResult {
+    // Matches relative to the search root, using the platform separator
+    paths: string[];
+    truncated: boolean;
+}
+
+// URI query key carrying the find arguments of a virtual Dired buffer
+// (`dired:<root>?find=<args>`).
+export const FIND_QUERY_KEY = 'find';
+
+const SIZE_UNITS: { [u: string]: number } = { c: 1, b: 512, k: 1024, K: 1024, M: 1024 * 1024, G: 1024 * 1024 * 1024 };
+
+// Split an argument string on whitespace, honoring single and double quotes.
+export function tokenizeArgs(args: string): string[] {
+    const tokens: string[] = [];
+    const re = /"([^"]*)"|'([^']*)'|(\S+)/g;
+    let m: RegExpExecArray | null;
+    while ((m = re.exec(args || '')) !== null) {
+        tokens.push(m[1] !== undefined ? m[1] : (m[2] !== undefined ? m[2] : m[3]));
+    }
+    return tokens;
+}
+
+function parseNumericTest(arg: string, unitScale: (unit: string) => number | undefined): NumericTest | undefined {
+    const m = /^([+-]?)(\d+(?:\.\d+)?)([a-zA-Z]?)$/.exec(arg || '');
+    if (!m) return undefined;
+    const scale = unitScale(m[3]);
+    if (scale === undefined) return undefined;
+    const op = m[1] === '+' ? '+' : (m[1] === '-' ? '-' : '=');
+    return { op, value: parseFloat(m[2]) * scale, unit: scale };
+}
+
+// `-size` argument: [+-]N[c|k|M|G].
+export function parseSizeTest(arg: string): NumericTest | undefined {
+    return parseNumericTest(arg, (u) => u === '' ? 1 : SIZE_UNITS[u]);
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// `-mtime` argument: [+-]N days (or N `unit` milliseconds, as for `-mmin`).
+export function parseAgeTest(arg: string, unit = DAY_MS): NumericTest | undefined {
+    return parseNumericTest(arg, (u) => u === '' ? unit : undefined);
+}
+
+// Parse find arguments. Throws an Error describing the first invalid argument.
+export function parseFindArgs(args: string): FindCriteria {
+    const criteria: FindCriteria = { names: [], paths: [], excludes: [] };
+    const tokens = tokenizeArgs(args);
+    const need = (i: number, flag: string) => {
+        if (i >= tokens.length) throw new Error(`${flag}: missing argument`);
+        return tokens[i];
+    };
+    for (let i = 0; i < tokens.length; i++) {
+        const tok = tokens[i];
+        switch (tok) {
+            case '-name':
+            case '-iname':
+                criteria.names.push(globToRegExp(need(++i, tok), tok === '-iname'));
+                break;
+            case '-path':
+                criteria.paths.push(globToRegExp(need(++i, tok).replace(/^\.\//, '')));
+                break;
+            case '-regex':
+            case '-iregex':
+                try {
+                    criteria.paths.push(new RegExp(need(++i, tok), tok === '-iregex' ? 'i' : ''));
+                } catch (e) {
+                    throw new Error(`${tok}: invalid regular expression ${tokens[i]}`);
+                }
+                break;
+            case '-type': {
+                const t = need(++i, tok);
+                if (t !== 'f' && t !== 'd' && t !== 'l') throw new Error(`-type: unknown type ${t}`);
+                criteria.type = t;
+                break;
+            }
+            case '-size': {
+                const v = need(++i, tok);
+                const test = parseSizeTest(v);
+                if (!test) throw new Error(`-size: invalid size ${v}`);
+                criteria.size = test;
+                break;
+            }
+            case '-mtime':
+            case '-mmin': {
+                const v = need(++i, tok);
+                const test = parseAgeTest(v, tok === '-mtime' ? DAY_MS : 60 * 1000);
+                if (!test) throw new Error(`${tok}: invalid age ${v}`);
+                criteria.age = test;
+                break;
+            }
+            case '-not':
+            case '!': {
+                const what = need(++i, tok);
+                if (what !== '-name' && what !== '-path') throw new Error(`${tok}: only -name and -path can be negated`);
+                criteria.excludes.push(need(++i, what).replace(/^\.\//, ''));
+                break;
+            }
+            default:
+                if (tok.startsWith('-')) throw new Error(`Unknown find argument ${tok}`);
+                criteria.names.push(globToRegExp(tok));
+        }
+    }
+    return criteria;
+}
+
+export function testNumber(test: NumericTest, value: number): boolean {
+    switch (test.op) {
+        case '+': return value > test.value;
+        case '-': return value < test.value;
+        default: return Math.floor(value / test.unit) === Math.floor(test.value / test.unit);
+    }
+}
+
+function matches(criteria: FindCriteria, rel: string, stat: fs.Stats, now: number): boolean {
+    const posix = rel.split(path.sep).join('/');
+    const base = path.basename(rel);
+    if (criteria.names.length && !criteria.names.some((re) => re.test(base))) return false;
+    if (criteria.paths.length && !criteria.paths.some((re) => re.test(posix))) return false;
+    if (criteria.type === 'f' && !stat.isFile()) return false;
+    if (criteria.type === 'd' && !stat.isDirectory()) return false;
+    if (criteria.type === 'l' && !stat.isSymbolicLink()) return false;
+    if (criteria.size && (stat.isDirectory() || !testNumber(criteria.size, stat.size))) return false;
+    if (criteria.age && !testNumber(criteria.age, now - stat.mtimeMs)) return false;
+    return true;
+}
+
+// Walk `root` depth-first and collect entries matching `criteria`. Symbolic
+// links are reported but never followed. Stops after `maxEntries` matches.
+export async function findFiles(root: string, criteria: FindCriteria, maxEntries: number, isCancelled?: () => boolean): Promise<FindResult> {
+    const result: FindResult = { paths: [], truncated: false };
+    const now = Date.now();
+    const pending: string[] = [''];
+    while (pending.length) {
+        if (isCancelled && isCancelled()) break;
+        const relDir = pending.pop() as string;
+        let names: string[];
+        try {
+            names = await fs.promises.readdir(path.join(root, relDir));
+        } catch (e) {
+            continue; // unreadable directory
+        }
+        names.sort();
+        const subdirs: string[] = [];
+        for (const name of names) {
+            const rel = relDir ? path.join(relDir, name) : name;
+            if (criteria.excludes.some((g) => matchGlob(g, rel))) continue;
+            let stat: fs.Stats;
+            try {
+                stat = await fs.promises.lstat(path.join(root, rel));
+            } catch (e) {
+                continue;
+            }
+            if (matches(criteria, rel, stat, now)) {
+                if (result.paths.length >= maxEntries) {
+                    result.truncated = true;
+                    return result;
+                }
+                result.paths.push(rel);
+            }
+            if (stat.isDirectory()) subdirs.push(rel);
+        }
+        // push in reverse so directories are visited in name order
+        for (let i = subdirs.length - 1; i >= 0; i--) pending.push(subdirs[i]);
+    }
+    return result;
+}
@@ -0,0 +1,305 @@
+'use strict';
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { execFile } from 'child_process';
+
+// Git support for Dired: per-file status read from the local repository with
+// `git status --porcelain -z --ignored` (snapshots are cached per repository
+// and invalidated when the directory watcher fires), and Git-aware file
+// operations (`git mv`, `git rm`, stage, unstage, discard).
+
+export type GitStatusKind = 'conflicted' | 'modified' | 'staged' | 'untracked' | 'ignored';
+
+export const GIT_STATUS_KINDS: GitStatusKind[] = ['conflicted', 'modified', 'staged', 'untracked', 'ignored'];
+
+export interface GitFileStatus {
+    kind: GitStatusKind;
+    // two-letter porcelain code, e.g. ' M', 'A ', '??', 'UU'
+    code: string;
+    // true when a directory only shows the status of something below it
+    fromDescendant: boolean;
+}
+
+const CONFLICT_CODES = new Set(['DD', 'AU', 'UD', 'UA', 'DU', 'AA', 'UU']);
+
+// Code shown on a directory summarising the files below it.
+const SUMMARY_CODES: { [k in GitStatusKind]: string } = {
+    conflicted: 'UU', modified: ' M', staged: 'M ', untracked: '??', ignored: '!!'
+};
+
+export function classifyStatus(code: string): GitStatusKind {
+    if (code === '??') return 'untracked';
+    if (code === '!!') return 'ignored';
+    if (CONFLICT_CODES.has(code)) return 'conflicted';
+    // unstaged changes win over staged ones
+    if (code.charAt(1) !== ' ') return 'modified';
+    return 'staged';
+}
+
+// Parse `git status --porcelain=v1 -z` output into root-relative paths
+// (forward slashes; directories keep their trailing slash) and codes.
+export function parsePorcelain(output: string): { path: string, code: string }[] {
+    const result: { path: string, code: string }[] = [];
+    const records = output.split('\0');
+    for (let i = 0; i < records.length; i++) {
+        const rec = records[i];
+        if (rec.length < 4) continue;
+        const code = rec.substring(0, 2);
+        result.push({ path: rec.substring(3), code });
+        // renames and copies are followed by the original path
+        if (code.charAt(0) === 'R' || code.charAt(0) === 'C') i++;
+    }
+    return result;
+}
+
+// Status of every path reported for one repository.
+export class GitStatusSnapshot {
+    private _files = new Map<string, string>();
+    // untracked or ignored directories reported as a whole (`dir/`)
+    private _dirs = new Map<string, string>();
+    private _summary = new Map<string, GitStatusKind>();
+
+    constructor(readonly root: string, entries: { path: string, code: string }[]) {
+        for (const e of entries) {
+            const rel = e.path.replace(/\/+$/, '');
+            if (e.path.endsWith('/')) this._dirs.set(rel, e.code);
+            else this._files.set(rel, e.code);
+            const kind = classifyStatus(e.code);
+            if (kind === 'ignored') continue;
+            // propagate the most important kind to every ancestor directory
+            for (let dir = path.posix.dirname(rel); dir !== '.' && dir !== '/'; dir = path.posix.dirname(dir)) {
+                const prev = this._summary.get(dir);
+                if (prev && GIT_STATUS_KINDS.indexOf(prev) <= GIT_STATUS_KINDS.indexOf(kind)) break;
+                this._summary.set(dir, kind);
+            }
+        }
+    }
+
+    lookup(absPath: string, isDirectory: boolean): GitFileStatus | undefined {
+        const rel = path.relative(this.root, absPath).split(path.sep).join('/');
+        if (!rel || rel.startsWith('..') || path.isAbsolute(rel)) return undefined;
+        const own = this._files.get(rel) || this._dirs.get(rel);
+        if (own) return { kind: classifyStatus(own), code: own, fromDescendant: false };
+        // inside an untracked or ignored directory
+        for (let dir = path.posix.dirname(rel); dir !== '.'; dir = path.posix.dirname(dir)) {
+            const code = this._dirs.get(dir);
+            if (code) return { kind: classifyStatus(code), code, fromDescendant: false };
+        }
+        if (isDirectory) {
+            const kind = this._summary.get(rel);
+            if (kind) return { kind, code: SUMMARY_CODES[kind], fromDescendant: true };
+        }
+        return undefined;
+    }
+}
+
+// The repository containing `dir`: the nearest ancestor with a `.git` entry.
+export async function findRepoRoot(dir: string): Promise<string | undefined> {
+    let cur = path.resolve(dir);
+    for (;;) {
+        try {
+            await fs.promises.stat(path.join(cur, '.git'));
+            return cur;
+        } catch (e) { /* keep walking up */ }
+        const parent = path.dirname(cur);
+        if (parent === cur) return undefined;
+        cur = parent;
+    }
+}
+
+// Run git in `cwd`. Rejects with git's error output when it fails.
+export function runGit(cwd: string, args: string[]): Promise<string> {
+    return new Promise((resolve, reject) => {
+        execFile('git', args, { cwd, maxBuffer: 64 * 1024 * 1024 }, (err, stdout, stderr) => {
+            if (err) reject(new Error((stderr || '').trim() || err.message));
+            else resolve(stdout);
+        });
+    });
+}
+
+function runGitStatus(root: string): Promise<string> {
+    return runGit(root, ['status', '--porcelain=v1', '-z', '--ignored', '--untracked-files=normal']);
+}
+
+function relPath(root: string, absPath: string): string {
+    return path.relative(root, absPath).split(path.sep).join('/') || '.';
+}
+
+// Tracked files at or below `paths` (root-relative, forward slashes).
+async function trackedFiles(root: string, paths: string[]): Promise<string[]> {
+    if (!paths.length) return [];
+    const out = await runGit(root, ['ls-files', '-z', '--', ...paths.map((p) => relPath(root, p))]);
+    return out.split('\0').filter((l) => !!l);
+}
+
+function isTrackedIn(tracked: string[], rel: string): boolean {
+    return rel === '.' ? tracked.length > 0 : tracked.some((t) => t === rel || t.startsWith(rel + '/'));
+}
+
+// Group absolute paths by the repository containing them; paths outside any
+// repository are collected under `outside`.
+async function groupByRepo(paths: string[]): Promise<{ repos: Map<string, string[]>, outside: string[] }> {
+    const repos = new Map<string, string[]>();
+    const outside: string[] = [];
+    for (const p of paths) {
+        const abs = path.resolve(p);
+        const root = await findRepoRoot(path.dirname(abs));
+        if (!root) {
+            outside.push(abs);
+            continue;
+        }
+        const list = repos.get(root) || [];
+        list.push(abs);
+        repos.set(root, list);
+    }
+    return { repos, outside };
+}
+
+export interface GitBatchResult {
+    // paths git acted on
+    done: string[];
+    // paths outside a repository or not applicable (e.g. untracked for discard)
+    skipped: string[];
+}
+
+// Move `src` to `dest` with `git mv` when `src` is tracked and both are in
+// the same repository. Resolves false, without touching anything, when git
+// does not apply so the caller can fall back to a plain rename.
+export async function gitMove(src: string, dest: string): Promise<boolean> {
+    const from = path.resolve(src);
+    const to = path.resolve(dest);
+    const root = await findRepoRoot(path.dirname(from));
+    if (!root || (await findRepoRoot(path.dirname(to))) !== root) return false;
+    const tracked = await trackedFiles(root, [from]);
+    if (!isTrackedIn(tracked, relPath(root, from))) return false;
+    await runGit(root, ['mv', '--', relPath(root, from), relPath(root, to)]);
+    return true;
+}
+
+// Delete `target` with `git rm` so the deletion is staged. Untracked files
+// left inside a removed directory are deleted as well. Resolves false when
+// `target` is not tracked.
+export async function gitRemove(target: string): Promise<boolean> {
+    const abs = path.resolve(target);
+    const root = await findRepoRoot(path.dirname(abs));
+    if (!root) return false;
+    const rel = relPath(root, abs);
+    if (!isTrackedIn(await trackedFiles(root, [abs]), rel)) return false;
+    await runGit(root, ['rm', '-r', '-f', '-q', '--', rel]);
+    try { await fs.promises.rm(abs, { recursive: true, force: true }); } catch (e) { /* already gone */ }
+    return true;
+}
+
+// Take back the staged deletion of `gitRemove`: the index entries of
+// `target` are reset to HEAD. The working tree is left alone.
+export async function gitUnremove(target: string): Promise<void> {
+    const abs = path.resolve(target);
+    const root = await findRepoRoot(path.dirname(abs));
+    if (root) await runGit(root, ['reset', '-q', '--', relPath(root, abs)]);
+}
+
+// Stage `paths`, including deletions and untracked files below them.
+export async function gitStage(paths: string[]): Promise<GitBatchResult> {
+    const { repos, outside } = await groupByRepo(paths);
+    const result: GitBatchResult = { done: [], skipped: outside };
+    for (const [root, list] of repos) {
+        await runGit(root, ['add', '-A', '--', ...list.map((p) => relPath(root, p))]);
+        result.done.push(...list);
+    }
+    return result;
+}
+
+// Remove staged changes of `paths` from the index; the working tree is kept.
+export async function gitUnstage(paths: string[]): Promise<GitBatchResult> {
+    const { repos, outside } = await groupByRepo(paths);
+    const result: GitBatchResult = { done: [], skipped: outside };
+    for (const [root, list] of repos) {
+        const tracked = await trackedFiles(root, list);
+        const known = list.filter((p) => isTrackedIn(tracked, relPath(root, p)));
+        result.skipped.push(...list.filter((p) => known.indexOf(p) < 0));
+        if (!known.length) continue;
+        await runGit(root, ['restore', '--staged', '--', ...known.map((p) => relPath(root, p))]);
+        result.done.push(...known);
+    }
+    return result;
+}
+
+// Discard unstaged changes of tracked `paths`, restoring them from the index.
+// Untracked files are never touched and are reported as skipped.
+export async function gitDiscard(paths: string[]): Promise<GitBatchResult> {
+    const { repos, outside } = await groupByRepo(paths);
+    const result: GitBatchResult = { done: [], skipped: outside };
+    for (const [root, list] of repos) {
+        const tracked = await trackedFiles(root, list);
+        const known = list.filter((p) => isTrackedIn(tracked, relPath(root, p)));
+        result.skipped.push(...list.filter((p) => known.indexOf(p) < 0));
+        if (!known.length) continue;
+        await runGit(root, ['restore', '--worktree', '--', ...known.map((p) => relPath(root, p))]);
+        result.done.push(...known);
+    }
+    return result;
+}
+
+export class GitStatusIndex {
+    private _repoRoots = new Map<string, string | undefined>();
+    private _pending = new Map<string, Promise<GitStatusSnapshot | undefined>>();
+    // last loaded snapshot per repository, kept until a newer one replaces it
+    private _loaded = new Map<string, GitStatusSnapshot>();
+
+    // Snapshot of the repository containing `dir`, or undefined outside a
+    // repository or when git cannot be run.
+    async statusFor(dir: string): Promise<GitStatusSnapshot | undefined> {
+        const resolved = path.resolve(dir);
+        let root: string | undefined;
+        if (this._repoRoots.has(resolved)) {
+            root = this._repoRoots.get(resolved);
+        } else {
+            root = await findRepoRoot(resolved);
+            this._repoRoots.set(resolved, root);
+        }
+        if (!root) return undefined;
+        let pending = this._pending.get(root);
+        if (!pending) {
+            const repo = root;
+            pending = runGitStatus(repo)
+                .then((out) => {
+                    const snapshot = new GitStatusSnapshot(repo, parsePorcelain(out));
+                    this._loaded.set(repo, snapshot);
+                    return snapshot;
+                })
+                .catch(() => {
+                    this._loaded.delete(repo);
+                    return undefined;
+                });
+            this._pending.set(repo, pending);
+        }
+        return pending;
+    }
+
+    // Status of `absPath` from the loaded snapshots; never runs git.
+    lookup(absPath: string, isDirectory: boolean): GitFileStatus | undefined {
+        let best: GitStatusSnapshot | undefined;
+        for (const snapshot of this._loaded.values()) {
+            if (absPath !== snapshot.root && !absPath.startsWith(snapshot.root + path.sep)) continue;
+            // nested repositories: the innermost one wins
+            if (!best || snapshot.root.length > best.root.length) best = snapshot;
+        }
+        return best ? best.lookup(absPath, isDirectory) : undefined;
+    }
+
+    // Reload the repository containing `dir` on next use (all when omitted).
+    invalidate(dir?: string) {
+        if (!dir) {
+            this._pending.clear();
+            this._repoRoots.clear();
+            return;
+        }
+        const resolved = path.resolve(dir);
+        for (const root of Array.from(this._pending.keys())) {
+            if (resolved === root || resolved.startsWith(root + path.sep) || root.startsWith(resolved + path.sep)) {
+                this._pending.delete(root);
+            }
+        }
+    }
+}
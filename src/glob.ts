@@ -0,0 +1,85 @@
+'use strict';
+
+// Shell-style glob matching used by find-dired and other filename filters.
+//   *       any run of characters except '/'
+//   **      any run of characters including '/'
+//   ?       a single character except '/'
+//   [abc]   a character class ([!abc] or [^abc] negates it)
+//   {a,b}   alternatives
+
+const _globCache = new Map<string, RegExp>();
+
+function escapeRegExp(ch: string): string {
+    return /[\\^$.*+?()[\]{}|\/]/.test(ch) ? `\\${ch}` : ch;
+}
+
+export function globToRegExp(glob: string, ignoreCase = false): RegExp {
+    const key = `${ignoreCase ? 'i' : ''}:${glob}`;
+    const cached = _globCache.get(key);
+    if (cached) return cached;
+    let src = '';
+    let inGroup = 0;
+    for (let i = 0; i < glob.length; i++) {
+        const ch = glob.charAt(i);
+        switch (ch) {
+            case '*':
+                if (glob.charAt(i + 1) === '*') {
+                    // `**/` also matches no directory at all
+                    if (glob.charAt(i + 2) === '/') {
+                        src += '(?:.*/)?';
+                        i += 2;
+                    } else {
+                        src += '.*';
+                        i++;
+                    }
+                } else {
+                    src += '[^/]*';
+                }
+                break;
+            case '?':
+                src += '[^/]';
+                break;
+            case '[': {
+                const close = glob.indexOf(']', i + 2);
+                if (close < 0) {
+                    src += '\\[';
+                    break;
+                }
+                let cls = glob.substring(i + 1, close);
+                if (cls.charAt(0) === '!' || cls.charAt(0) === '^') cls = '^' + cls.substring(1);
+                src += `[${cls.replace(/\\/g, '\\\\')}]`;
+                i = close;
+                break;
+            }
+            case '{':
+                inGroup++;
+                src += '(?:';
+                break;
+            case '}':
+                if (inGroup > 0) {
+                    inGroup--;
+                    src += ')';
+                } else {
+                    src += '\\}';
+                }
+                break;
+            case ',':
+                src += inGroup > 0 ? '|' : ',';
+                break;
+            default:
+                src += escapeRegExp(ch);
+        }
+    }
+    while (inGroup-- > 0) src += ')';
+    const re = new RegExp(`^${src}$`, ignoreCase ? 'i' : '');
+    _globCache.set(key, re);
+    return re;
+}
+
+// Match `relPath` (forward slashes) against `glob`. Globs without a '/' are
+// matched against the basename only, like `find -name` and `.gitignore`.
+export function matchGlob(glob: string, relPath: string, ignoreCase = false): boolean {
+    const p = relPath.replace(/\\/g, '/');
+    const target = glob.indexOf('/') >= 0 ? p : p.substring(p.lastIndexOf('/') + 1);
+    return globToRegExp(glob.replace(/^\//, ''), ignoreCase).test(target);
+}
@@ -0,0 +1,203 @@
+'use strict';
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+
+import { OperationCancelled, OperationControl, OperationProgress } from './progress';
+import { isInside } from './fileOps';
+
+// Queue for long file operations (copy, move, delete). Jobs run with bounded
+// concurrency; a job never starts while a running job touches an overlapping
+// directory, so operations on the same tree do not race. Jobs can be paused,
+// resumed and cancelled, and the queue reports the directories of every
+// finished job so their listings can be refreshed.
+
+export type JobStatus = 'queued' | 'running' | 'paused' | 'done' | 'failed' | 'cancelled';
+
+export class Job implements OperationControl {
+    status: JobStatus = 'queued';
+    // error message of a failed job, or a short result set by the job
+    detail: string | undefined;
+    progress: OperationProgress | undefined;
+    readonly queuedAt = Date.now();
+    finishedAt: number | undefined;
+    private _cancelRequested = false;
+    private _paused = false;
+    private _resumeWaiters: (() => void)[] = [];
+
+    constructor(readonly id: number, readonly title: string, readonly dirs: string[],
+        readonly run: (job: Job) => Promise<void>, private readonly _changed: () => void) {
+    }
+
+    get cancelRequested(): boolean {
+        return this._cancelRequested;
+    }
+
+    get paused(): boolean {
+        return this._paused;
+    }
+
+    get finished(): boolean {
+        return this.status === 'done' || this.status === 'failed' || this.status === 'cancelled';
+    }
+
+    attach(progress: OperationProgress) {
+        this.progress = progress;
+        this._changed();
+    }
+
+    // Resolves once the job is resumed (or cancelled).
+    waitWhilePaused(): Promise<void> {
+        if (!this._paused || this._cancelRequested) return Promise.resolve();
+        return new Promise((resolve) => this._resumeWaiters.push(resolve));
+    }
+
+    pause() {
+        if (this.finished || this._paused) return;
+        this._paused = true;
+        if (this.status === 'running') this.status = 'paused';
+        this._changed();
+    }
+
+    resume() {
+        if (!this._paused) return;
+        this._paused = false;
+        if (this.status === 'paused') this.status = 'running';
+        this._wake();
+        this._changed();
+    }
+
+    cancel() {
+        if (this.finished) return;
+        this._cancelRequested = true;
+        this._wake();
+        this._changed();
+    }
+
+    // One line describing the job's state, for lists and tooltips.
+    describe(): string {
+        if (this.status === 'failed') return `failed: ${this.detail || 'unknown error'}`;
+        const counts = this.progress ? this.progress.counts() : '';
+        if (this.status === 'running' || this.status === 'paused') {
+            return this.progress ? `${this.status}, ${this.progress.message()}` : this.status;
+        }
+        return [this.status, this.detail || counts].filter((s) => !!s).join(', ');
+    }
+
+    private _wake() {
+        const waiters = this._resumeWaiters;
+        this._resumeWaiters = [];
+        waiters.forEach((w) => w());
+    }
+}
+
+export class JobQueue {
+    private _jobs: Job[] = [];
+    private _nextId = 1;
+    private _onDidChange = new vscode.EventEmitter<void>();
+
+    // `onFinished` receives every job that ran once it stopped, whatever the outcome.
+    constructor(private _concurrency: () => number, private readonly _onFinished: (job: Job) => void | Promise<void>) {
+    }
+
+    get onDidChange(): vscode.Event<void> {
+        return this._onDidChange.event;
+    }
+
+    get jobs(): Job[] {
+        return this._jobs.slice();
+    }
+
+    get active(): Job[] {
+        return this._jobs.filter((j) => !j.finished);
+    }
+
+    // Queue `run` as a job touching `dirs`; it starts as soon as a slot is free
+    // and no running job works on an overlapping directory.
+    enqueue(title: string, dirs: string[], run: (job: Job) => Promise<void>): Job {
+        const job = new Job(this._nextId++, title, dirs.map((d) => path.resolve(d)), run, () => this._changed());
+        this._jobs.push(job);
+        this._changed();
+        return job;
+    }
+
+    // Forget finished jobs.
+    clearFinished() {
+        this._jobs = this._jobs.filter((j) => !j.finished);
+        this._changed();
+    }
+
+    // Resolves once every job queued so far has finished.
+    async drain(): Promise<void> {
+        while (this.active.length) {
+            await new Promise<void>((resolve) => {
+                const sub = this._onDidChange.event(() => {
+                    sub.dispose();
+                    resolve();
+                });
+            });
+        }
+    }
+
+    dispose() {
+        for (const job of this.active) job.cancel();
+        this._onDidChange.dispose();
+    }
+
+    private _changed() {
+        this._schedule();
+        try { this._onDidChange.fire(); } catch (e) { /* ignore */ }
+    }
+
+    private _schedule() {
+        const running = this._jobs.filter((j) => j.status === 'running' || j.status === 'paused');
+        const limit = Math.max(1, this._concurrency() || 1);
+        for (const job of this._jobs) {
+            if (running.length >= limit) break;
+            if (job.status !== 'queued') continue;
+            if (job.cancelRequested) {
+                this._finish(job, 'cancelled', false);
+                continue;
+            }
+            // a paused job waits in the queue without blocking the ones behind it
+            if (job.paused) continue;
+            if (running.some((r) => overlaps(r.dirs, job.dirs))) continue;
+            running.push(job);
+            this._start(job);
+        }
+    }
+
+    private _start(job: Job) {
+        job.status = 'running';
+        (async () => {
+            let status: JobStatus = 'done';
+            try {
+                // start outside `_schedule`, which may still be iterating
+                await Promise.resolve();
+                await job.run(job);
+                if (job.cancelRequested) status = 'cancelled';
+            } catch (e) {
+                if (e instanceof OperationCancelled) {
+                    status = 'cancelled';
+                } else {
+                    status = 'failed';
+                    job.detail = e instanceof Error ? e.message : String(e);
+                }
+            }
+            this._finish(job, status, true);
+        })();
+    }
+
+    private _finish(job: Job, status: JobStatus, ran: boolean) {
+        job.status = status;
+        job.finishedAt = Date.now();
+        Promise.resolve()
+            .then(() => ran ? this._onFinished(job) : undefined)
+            .catch(() => { /* ignore refresh errors */ })
+            .then(() => this._changed());
+    }
+}
+
+function overlaps(a: string[], b: string[]): boolean {
+    return a.some((x) => b.some((y) => isInside(x, y) || isInside(y, x)));
+}
@@ -0,0 +1,221 @@
+'use strict';
+
+import * as fs from 'fs';
+
+// Listing layout configured through `dired.listingSwitches`, modeled on the
+// switches understood by `ls -l`:
+//   -g            hide the owner column
+//   -o, -G        hide the group column
+//   -n            show numeric uid/gid instead of names
+//   -h            binary sizes (1024 based, e.g. `5.4Ki`)
+//   --si          SI sizes (1000 based, e.g. `5.5K`)
+//   -c, -u        show ctime / atime instead of mtime
+//   --time=WORD   mtime|ctime|atime|birth
+//   --time-style=STYLE  default|locale|iso|long-iso|full-iso|relative
+// Without -h/--si sizes are shown as exact byte counts.
+
+export type TimeField = 'mtime' | 'ctime' | 'atime' | 'birthtime';
+export type TimeStyle = 'default' | 'iso' | 'full-iso' | 'relative';
+export type SizeStyle = 'bytes' | 'si' | 'binary';
+
+export interface ListingFormat {
+    showOwner: boolean;
+    showGroup: boolean;
+    numericIds: boolean;
+    timeField: TimeField;
+    timeStyle: TimeStyle;
+    sizeStyle: SizeStyle;
+}
+
+// Reproduces the historical Dired layout (human SI sizes, owner and group).
+export const DEFAULT_LISTING_SWITCHES = '-l --si';
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+// `ls` shows the year instead of the time for files older than ~6 months.
+const SIX_MONTHS_MS = 182 * 24 * 60 * 60 * 1000;
+
+function parseTimeField(word: string): TimeField | undefined {
+    switch (word) {
+        case 'mtime': case 'modification': return 'mtime';
+        case 'ctime': case 'status': return 'ctime';
+        case 'atime': case 'access': case 'use': return 'atime';
+        case 'birth': case 'creation': case 'birthtime': return 'birthtime';
+    }
+    return undefined;
+}
+
+function parseTimeStyle(word: string): TimeStyle | undefined {
+    switch (word) {
+        case 'default': case 'locale': return 'default';
+        case 'iso': case 'long-iso': return 'iso';
+        case 'full-iso': return 'full-iso';
+        case 'relative': return 'relative';
+    }
+    return undefined;
+}
+
+// Parse a switch string such as "-lh --time=ctime --time-style=iso".
+// Unknown switches are ignored so a copied `dired-listing-switches` value
+// from Emacs still works.
+export function parseListingSwitches(switches: string | undefined): ListingFormat {
+    const fmt: ListingFormat = {
+        showOwner: true,
+        showGroup: true,
+        numericIds: false,
+        timeField: 'mtime',
+        timeStyle: 'default',
+        sizeStyle: 'bytes'
+    };
+    const tokens = (switches || '').trim().split(/\s+/).filter((t) => t.length > 0);
+    for (const tok of tokens) {
+        if (tok.startsWith('--')) {
+            const eq = tok.indexOf('=');
+            const name = eq >= 0 ? tok.substring(2, eq) : tok.substring(2);
+            const value = eq >= 0 ? tok.substring(eq + 1) : '';
+            if (name === 'si') fmt.sizeStyle = 'si';
+            else if (name === 'human-readable') fmt.sizeStyle = 'binary';
+            else if (name === 'no-group') fmt.showGroup = false;
+            else if (name === 'numeric-uid-gid') fmt.numericIds = true;
+            else if (name === 'time') fmt.timeField = parseTimeField(value) || fmt.timeField;
+            else if (name === 'time-style') fmt.timeStyle = parseTimeStyle(value) || fmt.timeStyle;
+            else if (name === 'full-time') fmt.timeStyle = 'full-iso';
+            continue;
+        }
+        if (!tok.startsWith('-')) continue;
+        for (const ch of tok.substring(1)) {
+            switch (ch) {
+                case 'g': fmt.showOwner = false; break;
+                case 'o': case 'G': fmt.showGroup = false; break;
+                case 'n': fmt.numericIds = true; break;
+                case 'h': fmt.sizeStyle = 'binary'; break;
+                case 'c': fmt.timeField = 'ctime'; break;
+                case 'u': fmt.timeField = 'atime'; break;
+            }
+        }
+    }
+    return fmt;
+}
+
+// Pick the timestamp selected by `field` from a stat result. Filesystems
+// that do not record a birth time report 0; fall back to mtime there.
+export function pickTime(stats: fs.Stats, field: TimeField): number {
+    switch (field) {
+        case 'ctime': return stats.ctimeMs;
+        case 'atime': return stats.atimeMs;
+        case 'birthtime': return stats.birthtimeMs > 0 ? stats.birthtimeMs : stats.mtimeMs;
+        case 'mtime':
+        default: return stats.mtimeMs;
+    }
+}
+
+function pad2(n: number): string {
+    return n < 10 ? `0${n}` : String(n);
+}
+
+export function formatTime(ms: number, style: TimeStyle, now: number = Date.now()): string {
+    const d = new Date(ms);
+    switch (style) {
+        case 'iso':
+            return `${d.getFullYear()}-${pad2(d.getMonth() + 1)}-${pad2(d.getDate())} ${pad2(d.getHours())}:${pad2(d.getMinutes())}`;
+        case 'full-iso':
+            return `${d.getFullYear()}-${pad2(d.getMonth() + 1)}-${pad2(d.getDate())} ${pad2(d.getHours())}:${pad2(d.getMinutes())}:${pad2(d.getSeconds())}`;
+        case 'relative': {
+            const sec = Math.max(0, Math.floor((now - ms) / 1000));
+            let text: string;
+            if (sec < 60) text = `${sec}s`;
+            else if (sec < 3600) text = `${Math.floor(sec / 60)}m`;
+            else if (sec < 86400) text = `${Math.floor(sec / 3600)}h`;
+            else if (sec < 30 * 86400) text = `${Math.floor(sec / 86400)}d`;
+            else if (sec < 365 * 86400) text = `${Math.floor(sec / (30 * 86400))}mo`;
+            else text = `${Math.floor(sec / (365 * 86400))}y`;
+            // right-align so the filename column stays put for typical ages
+            return `${text} ago`.padStart(7, ' ');
+        }
+        case 'default':
+        default: {
+            const head = `${MONTHS[d.getMonth()]} ${pad2(d.getDate())}`;
+            const recent = (now - ms) < SIX_MONTHS_MS && (ms - now) < 60 * 60 * 1000;
+            return recent ? `${head} ${pad2(d.getHours())}:${pad2(d.getMinutes())}` : `${head}  ${d.getFullYear()}`;
+        }
+    }
+}
+
+// Regex source matching a timestamp rendered by `formatTime` in `style`.
+function timePattern(style: TimeStyle): string {
+    switch (style) {
+        case 'iso': return '\\d{4}-\\d{2}-\\d{2} \\d{2}:\\d{2}';
+        case 'full-iso': return '\\d{4}-\\d{2}-\\d{2} \\d{2}:\\d{2}:\\d{2}';
+        case 'relative': return ' *\\d+(?:s|m|h|d|mo|y) ago';
+        case 'default':
+        default: return '\\S+\\s+\\d+\\s+(?:\\d+:\\d+|\\s?\\d{4})';
+    }
+}
+
+const SI_UNITS = ['K', 'M', 'G', 'T', 'P'];
+const BINARY_UNITS = ['Ki', 'Mi', 'Gi', 'Ti', 'Pi'];
+
+// Format file sizes as exact bytes or in human-friendly SI/binary units.
+// e.g. SI: 532 -> "532", 5500 -> "5.5K"; binary: 5500 -> "5.4Ki"
+export function formatSize(bytes: number, style: SizeStyle): string {
+    if (bytes === undefined || bytes === null) return '';
+    if (style === 'bytes') return String(bytes);
+    const base = style === 'binary' ? 1024 : 1000;
+    const units = style === 'binary' ? BINARY_UNITS : SI_UNITS;
+    if (bytes < base) return String(bytes);
+    let value = bytes;
+    let unitIndex = -1;
+    while (value >= base && unitIndex < units.length - 1) {
+        value = value / base;
+        unitIndex++;
+    }
+    // Format with one decimal if <10, otherwise no decimals
+    const formatted = (value < 10 && Math.round(value * 10) / 10 !== Math.round(value)) ? value.toFixed(1) : Math.round(value).toString();
+    return `${formatted}${units[unitIndex]}`;
+}
+
+// Inverse of `formatSize`. Unit suffixes are recognized regardless of the
+// configured style so lines rendered with another layout still parse.
+export function parseSize(s: string): number {
+    if (!s) return 0;
+    s = s.trim();
+    const m = /^([\d.]+)(Ki|Mi|Gi|Ti|Pi|K|M|G|T|P)?$/i.exec(s);
+    if (!m) {
+        const n = parseInt(s, 10);
+        return isNaN(n) ? 0 : n;
+    }
+    const num = parseFloat(m[1]);
+    if (isNaN(num)) return 0;
+    if (!m[2]) return Math.round(num);
+    const unit = m[2].toUpperCase();
+    if (unit.length === 2) {
+        return Math.round(num * Math.pow(1024, BINARY_UNITS.map((u) => u.toUpperCase()).indexOf(unit) + 1));
+    }
+    return Math.round(num * Math.pow(1000, SI_UNITS.indexOf(unit) + 1));
+}
+
+export function sizeWidth(style: SizeStyle): number {
+    return style === 'bytes' ? 10 : 8;
+}
+
+export type LineField = 'mark' | 'mode' | 'owner' | 'group' | 'size' | 'time' | 'name';
+
+const _regexCache = new Map<string, { re: RegExp, fields: LineField[] }>();
+
+// Build the regex that parses a line rendered with `fmt`. The returned
+// `fields` array maps capture group N to `fields[N - 1]`.
+export function lineRegExp(fmt: ListingFormat): { re: RegExp, fields: LineField[] } {
+    const key = `${fmt.showOwner}|${fmt.showGroup}|${fmt.timeStyle}`;
+    const cached = _regexCache.get(key);
+    if (cached) return cached;
+    const fields: LineField[] = ['mark', 'mode'];
+    let src = '^\\s*(\\*?)\\s+([\\-dlpscb][rwxsStT\\-]{9})\\s+';
+    if (fmt.showOwner) { src += '(\\S+)\\s+'; fields.push('owner'); }
+    if (fmt.showGroup) { src += '(\\S+)\\s+'; fields.push('group'); }
+    // exactly one space follows the size so right-aligned times keep their padding
+    src += '(\\S+)\\s'; fields.push('size');
+    src += `(${timePattern(fmt.timeStyle)})\\s`; fields.push('time');
+    src += '(.+)$'; fields.push('name');
+    const result = { re: new RegExp(src), fields };
+    _regexCache.set(key, result);
+    return result;
+}
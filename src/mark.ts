@@ -0,0 +1,76 @@
+'use strict';
+
+import * as fs from 'fs';
+
+import { NumericTest, testNumber } from './find';
+
+// Predicates for marking entries by name or attribute (dired's `% m`, `* .`,
+// `* /`, `* *`, `* @` and `% g`). A predicate sees the entry's own `lstat`,
+// so a symbolic link is neither a directory nor an executable here.
+
+export interface MarkCandidate {
+    path: string;
+    name: string;
+    stat: fs.Stats;
+}
+
+export type MarkPredicate = (c: MarkCandidate) => boolean | Promise<boolean>;
+
+// Files larger than this are not searched by content.
+export const CONTENT_LIMIT = 16 * 1024 * 1024;
+
+export function byName(pattern: RegExp): MarkPredicate {
+    return (c) => {
+        pattern.lastIndex = 0;
+        return pattern.test(c.name);
+    };
+}
+
+// `exts` is one or more extensions separated by commas or spaces, with or
+// without the leading dot ("ts", ".js, .map"). Case-insensitive.
+export function byExtension(exts: string): MarkPredicate {
+    const suffixes = exts.split(/[\s,]+/).filter((e) => e && e !== '.').map((e) => (e.startsWith('.') ? e : '.' + e).toLowerCase());
+    return (c) => {
+        const name = c.name.toLowerCase();
+        return suffixes.some((s) => name.length > s.length && name.endsWith(s));
+    };
+}
+
+export const isDirectory: MarkPredicate = (c) => c.stat.isDirectory();
+
+// Regular files with any execute bit.
+export const isExecutable: MarkPredicate = (c) => c.stat.isFile() && (c.stat.mode & 0o111) !== 0;
+
+export const isSymlink: MarkPredicate = (c) => c.stat.isSymbolicLink();
+
+// Same test as find's `-size`; directories never match.
+export function bySize(test: NumericTest): MarkPredicate {
+    return (c) => !c.stat.isDirectory() && testNumber(test, c.stat.size);
+}
+
+// Same test as find's `-mtime`, against the time `now`.
+export function byAge(test: NumericTest, now = Date.now()): MarkPredicate {
+    return (c) => testNumber(test, now - c.stat.mtimeMs);
+}
+
+// `owner` is a numeric uid or a user name, looked up through `username`.
+export function byOwner(owner: string, username: (uid: number) => string | undefined): MarkPredicate {
+    const wanted = owner.trim();
+    if (/^\d+$/.test(wanted)) return (c) => c.stat.uid === Number(wanted);
+    return (c) => username(c.stat.uid) === wanted;
+}
+
+// Regular files whose text matches `pattern`. Unreadable files and files
+// over `limit` bytes do not match.
+export function byContent(pattern: RegExp, limit = CONTENT_LIMIT): MarkPredicate {
+    return async (c) => {
+        if (!c.stat.isFile() || c.stat.size > limit) return false;
+        try {
+            const text = await fs.promises.readFile(c.path, 'utf8');
+            pattern.lastIndex = 0;
+            return pattern.test(text);
+        } catch (e) {
+            return false;
+        }
+    };
+}
@@ -0,0 +1,148 @@
+'use strict';
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { globToRegExp } from './glob';
+
+// Omit mode (dired-x `dired-omit-mode`): hide entries matching glob patterns
+// and, optionally, anything ignored by the nearest `.gitignore`/`.ignore` files.
+
+// Presets behind the historical dotfile and `.meta` toggles.
+export const DOT_FILES_PATTERN = '.*';
+export const META_FILES_PATTERN = '*.meta';
+
+export const IGNORE_FILES = ['.gitignore', '.ignore'];
+
+export interface IgnoreRule {
+    re: RegExp;
+    negate: boolean;
+    dirOnly: boolean;
+    // pattern contains a slash: matched against the path relative to the ignore file
+    anchored: boolean;
+}
+
+// Rules of one ignore file; `base` is the directory containing it.
+export interface IgnoreFile {
+    base: string;
+    rules: IgnoreRule[];
+}
+
+export function parseIgnoreFile(text: string): IgnoreRule[] {
+    const rules: IgnoreRule[] = [];
+    for (const raw of text.split(/\r?\n/)) {
+        // trailing spaces are ignored unless escaped with a backslash
+        let line = /\\\s$/.test(raw) ? raw : raw.replace(/\s+$/, '');
+        if (!line || line.charAt(0) === '#') continue;
+        let negate = false;
+        if (line.charAt(0) === '!') {
+            negate = true;
+            line = line.substring(1);
+        } else if (line.startsWith('\\!') || line.startsWith('\\#')) {
+            line = line.substring(1);
+        }
+        let dirOnly = false;
+        if (line.endsWith('/')) {
+            dirOnly = true;
+            line = line.replace(/\/+$/, '');
+        }
+        const anchored = line.indexOf('/') >= 0;
+        line = line.replace(/^\//, '');
+        if (!line) continue;
+        rules.push({ re: globToRegExp(line), negate, dirOnly, anchored });
+    }
+    return rules;
+}
+
+// Apply `rules` to `rel` (forward slashes) and return the new ignored state,
+// starting from `ignored`. The last matching rule wins, as in git.
+function applyRules(rules: IgnoreRule[], rel: string, isDirectory: boolean, ignored: boolean): boolean {
+    const name = rel.substring(rel.lastIndexOf('/') + 1);
+    for (const rule of rules) {
+        if (rule.dirOnly && !isDirectory) continue;
+        if (rule.re.test(rule.anchored ? rel : name)) ignored = !rule.negate;
+    }
+    return ignored;
+}
+
+// True when `absPath` is ignored by the chain of ignore files (outermost
+// first). A path below an ignored directory is ignored as well.
+export function isIgnored(chain: IgnoreFile[], absPath: string, isDirectory: boolean): boolean {
+    let ignored = false;
+    for (const file of chain) {
+        const rel = path.relative(file.base, absPath).split(path.sep).join('/');
+        if (!rel || rel.startsWith('..')) continue;
+        const parts = rel.split('/');
+        // git does not look inside excluded directories, so check the ancestors first
+        let prefix = '';
+        for (let i = 0; i < parts.length - 1; i++) {
+            prefix = prefix ? `${prefix}/${parts[i]}` : parts[i];
+            if (applyRules(file.rules, prefix, true, false)) return true;
+        }
+        ignored = applyRules(file.rules, rel, isDirectory, ignored);
+    }
+    return ignored;
+}
+
+// Loads and caches ignore files, revalidating them by mtime.
+export class IgnoreIndex {
+    private _files: Map<string, { mtimeMs: number, rules: IgnoreRule[] }> = new Map();
+
+    // Ignore files that apply to entries of `dir`, outermost first. The
+    // search stops at the repository root (a directory containing `.git`).
+    async chainFor(dir: string): Promise<IgnoreFile[]> {
+        const chain: IgnoreFile[] = [];
+        let cur = path.resolve(dir);
+        for (;;) {
+            for (const name of IGNORE_FILES.slice().reverse()) {
+                const rules = await this.load(path.join(cur, name));
+                if (rules && rules.length) chain.unshift({ base: cur, rules });
+            }
+            let isRepoRoot = false;
+            try {
+                await fs.promises.stat(path.join(cur, '.git'));
+                isRepoRoot = true;
+            } catch (e) { /* not a repository root */ }
+            const parent = path.dirname(cur);
+            if (isRepoRoot || parent === cur) break;
+            cur = parent;
+        }
+        return chain;
+    }
+
+    private async load(file: string): Promise<IgnoreRule[] | undefined> {
+        let st: fs.Stats;
+        try {
+            st = await fs.promises.stat(file);
+        } catch (e) {
+            this._files.delete(file);
+            return undefined;
+        }
+        const cached = this._files.get(file);
+        if (cached && cached.mtimeMs === st.mtimeMs) return cached.rules;
+        try {
+            const rules = parseIgnoreFile(await fs.promises.readFile(file, 'utf8'));
+            this._files.set(file, { mtimeMs: st.mtimeMs, rules });
+            return rules;
+        } catch (e) {
+            return undefined;
+        }
+    }
+
+    clear() {
+        this._files.clear();
+    }
+}
+
+// Predicate deciding whether an entry named `name` in a listed directory is
+// omitted. `.` and `..` are never omitted.
+export type OmitPredicate = (name: string, isDirectory: boolean) => boolean;
+
+export function makeOmitPredicate(dir: string, patterns: string[], chain: IgnoreFile[]): OmitPredicate {
+    const res = patterns.filter((p) => !!p).map((p) => globToRegExp(p));
+    return (name, isDirectory) => {
+        if (name === '.' || name === '..') return false;
+        const base = name.substring(name.replace(/\\/g, '/').lastIndexOf('/') + 1);
+        if (res.some((re) => re.test(base))) return true;
+        return chain.length > 0 && isIgnored(chain, path.join(dir, name), isDirectory);
+    };
+}
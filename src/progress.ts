@@ -0,0 +1,219 @@
+'use strict';
+
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+
+import { formatSize } from './listingFormat';
+import { TreeProgress } from './fileOps';
+
+// Progress and cancellation for long file operations (copy, move, delete).
+// Source trees are scanned first so file and byte percentages are meaningful.
+
+// Thrown between files once the user pressed Cancel.
+export class OperationCancelled extends Error {
+    constructor() {
+        super('cancelled');
+        this.name = 'OperationCancelled';
+    }
+}
+
+// Outside control over a running operation, e.g. its entry in the job queue.
+export interface OperationControl {
+    readonly cancelRequested: boolean;
+    waitWhilePaused(): Promise<void>;
+    // the counters of the operation, once its sources are scanned
+    attach(progress: OperationProgress): void;
+}
+
+export interface TreeSize {
+    files: number;
+    bytes: number;
+}
+
+// Number of non-directory entries and their total size below `p` (`p` itself
+// when it is not a directory). Links are counted, not followed. Unreadable
+// entries count as empty.
+export async function scanTree(p: string, isCancelled: () => boolean = () => false): Promise<TreeSize> {
+    const size: TreeSize = { files: 0, bytes: 0 };
+    const walk = async (cur: string) => {
+        if (isCancelled()) throw new OperationCancelled();
+        let st: fs.Stats;
+        try {
+            st = await fs.promises.lstat(cur);
+        } catch (e) {
+            return;
+        }
+        if (!st.isDirectory()) {
+            size.files++;
+            size.bytes += st.size;
+            return;
+        }
+        let names: string[] = [];
+        try { names = await fs.promises.readdir(cur); } catch (e) { /* unreadable */ }
+        for (const name of names) await walk(path.join(cur, name));
+    };
+    await walk(p);
+    return size;
+}
+
+// e.g. "1:05"; hours are added when needed.
+export function formatDuration(ms: number): string {
+    const total = Math.max(0, Math.round(ms / 1000));
+    const h = Math.floor(total / 3600);
+    const m = Math.floor((total % 3600) / 60);
+    const s = total % 60;
+    const pad = (n: number) => (n < 10 ? '0' : '') + n;
+    return h ? `${h}:${pad(m)}:${pad(s)}` : `${m}:${pad(s)}`;
+}
+
+// Counters of one operation over a set of top-level entries. Files copied
+// inside a tree are reported one by one through `fileDone`; `complete` then
+// credits whatever the entry had left (a rename, a skipped conflict, a
+// deletion) so the totals always add up to the scan.
+export class OperationProgress implements TreeProgress {
+    readonly total: TreeSize = { files: 0, bytes: 0 };
+    readonly done: TreeSize = { files: 0, bytes: 0 };
+    // top-level entries finished, in order
+    readonly completed: string[] = [];
+    // top-level entry being worked on
+    current: string | undefined;
+    private _sizes = new Map<string, TreeSize>();
+    private _current: TreeSize = { files: 0, bytes: 0 };
+    private _started: number;
+
+    constructor(private readonly _isCancelled: () => boolean = () => false, private readonly _now: () => number = Date.now,
+        private readonly _waitWhilePaused: () => Promise<void> = () => Promise.resolve()) {
+        this._started = this._now();
+    }
+
+    // `shallow` counts every entry as one file without reading it, for
+    // operations that do not copy data.
+    async scan(entries: string[], shallow = false) {
+        for (const entry of entries) {
+            const size = shallow ? { files: 1, bytes: 0 } : await scanTree(entry, this._isCancelled);
+            this._sizes.set(path.resolve(entry), size);
+            this.total.files += size.files;
+            this.total.bytes += size.bytes;
+        }
+        // the ETA covers the work, not the scan
+        this._started = this._now();
+    }
+
+    get cancelled(): boolean {
+        return this._isCancelled();
+    }
+
+    // Called between two files: waits while the operation is paused, throws
+    // OperationCancelled once it is cancelled.
+    async checkpoint() {
+        if (this._isCancelled()) throw new OperationCancelled();
+        await this._waitWhilePaused();
+        if (this._isCancelled()) throw new OperationCancelled();
+    }
+
+    // Start working on the top-level entry `entry`.
+    begin(entry: string) {
+        this.current = entry;
+        this._current = { files: 0, bytes: 0 };
+    }
+
+    fileDone(bytes: number) {
+        this._current.files++;
+        this._current.bytes += bytes;
+        this.done.files++;
+        this.done.bytes += bytes;
+    }
+
+    // Finish the top-level entry `entry`, crediting what it did not report.
+    // Failed entries are credited but not listed as completed.
+    complete(entry: string, succeeded = true) {
+        const size = this._sizes.get(path.resolve(entry)) || { files: 0, bytes: 0 };
+        this.done.files += Math.max(0, size.files - this._current.files);
+        this.done.bytes += Math.max(0, size.bytes - this._current.bytes);
+        this._current = { files: 0, bytes: 0 };
+        this.current = undefined;
+        if (succeeded) this.completed.push(entry);
+    }
+
+    // 0..100, by bytes when there are any, by files otherwise.
+    get percent(): number {
+        if (this.total.bytes > 0) return Math.min(100, (this.done.bytes / this.total.bytes) * 100);
+        if (this.total.files > 0) return Math.min(100, (this.done.files / this.total.files) * 100);
+        return 0;
+    }
+
+    // Remaining time extrapolated from the rate so far; undefined until
+    // something is done.
+    get etaMs(): number | undefined {
+        const pct = this.percent;
+        if (pct <= 0 || pct >= 100) return undefined;
+        const elapsed = this._now() - this._started;
+        return elapsed * (100 - pct) / pct;
+    }
+
+    // e.g. "3/12 files, 1.2M of 8.0M"
+    counts(): string {
+        let text = `${this.done.files}/${this.total.files} files`;
+        if (this.total.bytes > 0) text += `, ${formatSize(this.done.bytes, 'si')} of ${formatSize(this.total.bytes, 'si')}`;
+        return text;
+    }
+
+    // e.g. "3/12 files, 1.2M of 8.0M, about 0:42 left"
+    message(): string {
+        let text = this.counts();
+        const eta = this.etaMs;
+        if (eta !== undefined) text += `, about ${formatDuration(eta)} left`;
+        return text;
+    }
+}
+
+// Run `task` under a cancellable progress notification. The sources are
+// scanned first (only counted when `shallow`); the notification is updated from
+// the counters twice a second. `control` can pause or cancel the operation as well.
+export async function withOperationProgress<T>(title: string, sources: string[], task: (progress: OperationProgress) => Promise<T>,
+    control?: OperationControl, shallow = false): Promise<{ result?: T, progress: OperationProgress, cancelled: boolean }> {
+    return vscode.window.withProgress({ location: vscode.ProgressLocation.Notification, title, cancellable: true }, async (report, token) => {
+        const progress = new OperationProgress(
+            () => token.isCancellationRequested || (!!control && control.cancelRequested),
+            Date.now,
+            control ? () => control.waitWhilePaused() : undefined);
+        if (control) control.attach(progress);
+        let reported = 0;
+        const update = () => {
+            const pct = progress.percent;
+            const name = progress.current ? `${path.basename(progress.current)}: ` : '';
+            report.report({ increment: Math.max(0, pct - reported), message: name + progress.message() });
+            reported = Math.max(reported, pct);
+        };
+        report.report({ message: 'scanning...' });
+        let timer: NodeJS.Timeout | undefined;
+        try {
+            await progress.scan(sources, shallow);
+            update();
+            timer = setInterval(update, 500);
+            const result = await task(progress);
+            return { result, progress, cancelled: progress.cancelled };
+        } catch (e) {
+            if (e instanceof OperationCancelled) return { progress, cancelled: true };
+            throw e;
+        } finally {
+            if (timer) clearInterval(timer);
+        }
+    });
+}
+
+// Tell the user how far a cancelled operation got, with the completed
+// entries listed on request.
+export function reportCancelled(verb: string, progress: OperationProgress) {
+    const summary = `${verb} cancelled: ${progress.completed.length} item(s) completed, ${progress.counts()}`;
+    vscode.window.setStatusBarMessage(summary, 8000);
+    vscode.window.showInformationMessage(summary, 'Details').then((choice) => {
+        if (choice !== 'Details') return;
+        const channel = vscode.window.createOutputChannel('Dired Operations');
+        channel.clear();
+        channel.appendLine(`${verb} cancelled. Completed (${progress.completed.length}):`);
+        for (const p of progress.completed) channel.appendLine(`  ${p}`);
+        channel.show(true);
+    }, () => { /* ignore */ });
+}
@@ -5,27 +5,71 @@ import * as fs from 'fs';
 import * as path from 'path';
 
 import FileItem from './fileItem';
+import { parseListingSwitches, DEFAULT_LISTING_SWITCHES } from './listingFormat';
+import { SortOrder, DEFAULT_SORT_ORDER, isSortKey, nextSortKey, sortEntries, describeSortOrder } from './sort';
+import { FIND_QUERY_KEY, parseFindArgs, findFiles } from './find';
+import { NameFilter, compileFilter, describeFilter } from './filter';
+import { GitStatusIndex, GitStatusKind, GitFileStatus, gitMove, gitRemove } from './git';
+import { DiredBuffer } from './diredBuffer';
+import { ConflictHandler, CopyOptions, Displacer, TreeProgress, copyTree, moveEntry, movedPath } from './fileOps';
+import { OperationProgress, OperationCancelled, withOperationProgress } from './progress';
+import { JobQueue } from './jobQueue';
+import { DeleteStep, UndoHistory, UndoStep, moveSteps } from './undoHistory';
+import { TrashEntry, TRASH_QUERY, trashDirectories, listTrash, trashedPath } from './trash';
+import { ListedEntry, WdiredProblem, planEdit, applyRenames, confirmPlan } from './wdired';
+import { ConflictResolver, conflictPolicyFor, reportConflicts } from './conflict';
+import { MarkPredicate } from './mark';
+import { DOT_FILES_PATTERN, META_FILES_PATTERN, IgnoreIndex, IgnoreFile, OmitPredicate, makeOmitPredicate } from './omit';
 
 // Reuse encoder/decoder instances to avoid allocating them repeatedly in hot paths
 const TEXT_ENCODER = new TextEncoder();
 const TEXT_DECODER = new TextDecoder();
 
-// Move common recursive copy helper to module scope so the function object
-// isn't reallocated every time it's used by methods like `copySelected`.
-async function copyRecursiveHelper(srcPath: string, destPath: string) {
-    const sstat = await fs.promises.stat(srcPath);
-    if (sstat.isDirectory()) {
-        await fs.promises.mkdir(destPath, { recursive: true });
-        for (const name of await fs.promises.readdir(srcPath)) {
-            await copyRecursiveHelper(path.join(srcPath, name), path.join(destPath, name));
-        }
-    } else {
-        await fs.promises.mkdir(path.dirname(destPath), { recursive: true });
-        await fs.promises.copyFile(srcPath, destPath);
-    }
+const FIXED_URI: vscode.Uri = vscode.Uri.parse('dired://fixed_window');
+
+// Document-like line access; satisfied by vscode.TextDocument and by
+// `arrayLines` for plain rendered buffers.
+export interface LineSource {
+    readonly lineCount: number;
+    lineAt(line: number): { text: string };
 }
 
-const FIXED_URI: vscode.Uri = vscode.Uri.parse('dired://fixed_window');
+function arrayLines(lines: string[]): LineSource {
+    return { lineCount: lines.length, lineAt: (i: number) => ({ text: lines[i] || '' }) };
+}
+
+// Header lines look like "<dir>:" optionally followed by bracketed indicators
+// such as "[sort: size, reversed]". Older buffers may use a "Dired: " prefix.
+// Indicators may contain one level of nested brackets, e.g. "[filter: glob [ab]*]".
+const HEADER_RE = /^(?:Dired:\s*)?(.*?):((?:\s+\[(?:[^\[\]]|\[[^\]]*\])*\])*)\s*$/;
+
+// State threaded through rendering the sections of one buffer.
+interface RenderContext {
+    sortOrder: SortOrder;
+    expanded: Set<string>;
+    // number of entries hidden by omit mode, shown in the header
+    omitted: number;
+}
+
+// Minimal per-entry metadata kept in `_dirCache`; enough to re-create a
+// FileItem line and to sort the listing without re-statting.
+interface LightEntry {
+    filename: string;
+    isDirectory: boolean;
+    isFile: boolean;
+    username: string | undefined;
+    groupname: string | undefined;
+    size: number;
+    month: string | number;
+    day: number;
+    hour: number;
+    min: number;
+    modeStr: string | undefined;
+    // displayed timestamp (field chosen by `dired.listingSwitches`)
+    timeMs: number | undefined;
+    mtimeMs: number;
+    linkTarget: string | undefined;
+}
 
 export default class DiredProvider implements vscode.TextDocumentContentProvider {
     static scheme = 'dired'; // ex: dired://<directory>
@@ -37,37 +81,76 @@ export default class DiredProvider implements vscode.TextDocumentContentProvider
     private _onDidSelectChange = new vscode.EventEmitter<void>();
     // Emit file change events for FileSystemProvider API
     private _onDidChangeFile = new vscode.EventEmitter<vscode.FileChangeEvent[]>();
+    // Problems found when a wdired edit is saved; fired with none once it is
+    // applied or aborted
+    private _onDidCheckEdit = new vscode.EventEmitter<{ uri: vscode.Uri, problems: WdiredProblem[] }>();
     private _fixed_window: boolean;
-    private _show_dot_files = true;
-    // Toggle display of `.meta` files (e.g., Unity .meta files)
-    private _show_meta_files = true;
-    private _buffers: string[]; // This is a temporary buffer. Reused by multiple tabs.
+    // Omit mode (dired-x): hide entries matching `dired.omitPatterns` and,
+    // when `dired.omitGitIgnored` is set, entries ignored by .gitignore/.ignore.
+    private _omitMode = false;
+    // Patterns hidden regardless of omit mode; the dotfile and `.meta` toggles
+    // add and remove their preset here.
+    private _omitPresets: Set<string> = new Set();
+    private _ignoreIndex = new IgnoreIndex();
+    // State of every Dired document, keyed by URI string
+    private _bufferStates: Map<string, DiredBuffer> = new Map();
+    // Most recently focused Dired document; commands still target it while
+    // focus is in another part of the window
+    private _lastActiveUri: string | undefined = undefined;
+    private _disposables: vscode.Disposable[] = [];
     private _show_path_in_tab = false;
-    private _watcher: vscode.FileSystemWatcher | null = null;
     // Lightweight per-directory cache to store minimal file metadata and avoid
     // retaining heavy FileItem or formatted-line objects between operations.
     // Each cache entry stores { entries: Array, dirMtime?: number } so we can
     // validate freshness against the directory mtime before reusing.
-    private _dirCache: Map<string, { entries: Array<any>, dirMtime?: number }> = new Map();
+    private _dirCache: Map<string, { entries: LightEntry[], dirMtime?: number, truncated?: boolean }> = new Map();
     // debounce timers for watchers to coalesce rapid FS events
     private _watchDebounceTimers: Map<string, NodeJS.Timeout> = new Map();
-    // Map of directory -> last cursor position { line, col }
-    private _lastCursorPos: Map<string, { line: number, col: number }> = new Map();
-    // In-memory set of absolute paths that are marked/selected. Stored in-memory
-    // to avoid modifying the open dired document (which causes save prompts).
-    private _selectedPaths: Set<string> = new Set();
+    // Git status of listed entries (`dired.showGitStatus`), shown as decorations
+    private _showGitStatus = false;
+    private _gitStatus = new GitStatusIndex();
+    // Long file operations; every finished job refreshes the directories it touched
+    readonly jobs = new JobQueue(
+        () => vscode.workspace.getConfiguration('dired').get<number>('jobConcurrency') || 2,
+        async (job) => {
+            for (const dir of job.dirs) await this.notifyDirChanged(dir);
+        });
 
-    constructor(fixed_window: boolean) {
+    // `history` records renames and wdired edits made through the provider
+    constructor(fixed_window: boolean, readonly history: UndoHistory = new UndoHistory()) {
         this._fixed_window = fixed_window;
         const cfg = vscode.workspace.getConfiguration('dired');
         if (cfg.has('show_path_in_tab')) {
             this._show_path_in_tab = cfg.get('show_path_in_tab') as boolean;
         }
+        this._omitMode = cfg.get<boolean>('omitMode') || false;
+        this._showGitStatus = cfg.get<boolean>('showGitStatus') || false;
+        this.applyListingSwitches();
+        try {
+            this._disposables.push(vscode.window.onDidChangeActiveTextEditor((editor) => {
+                if (editor && editor.document.uri.scheme === DiredProvider.scheme) this._lastActiveUri = editor.document.uri.toString();
+            }));
+        } catch (e) { /* ignore */ }
+    }
+
+    // Read `dired.listingSwitches` and apply the resulting column layout.
+    // Cached listings are dropped because they were rendered with the old layout.
+    public applyListingSwitches() {
+        const cfg = vscode.workspace.getConfiguration('dired');
+        FileItem.format = parseListingSwitches(cfg.get<string>('listingSwitches') || DEFAULT_LISTING_SWITCHES);
+        try { this._dirCache.clear(); } catch (e) { /* ignore */ }
     }
 
     dispose() {
+        this.jobs.dispose();
+        this.history.dispose();
         this._onDidChange.dispose();
-        try { if (this._watcher) { this._watcher.dispose(); this._watcher = null; } } catch (e) { }
+        this._onDidCheckEdit.dispose();
+        for (const buf of this._bufferStates.values()) buf.release();
+        this._bufferStates.clear();
+        for (const d of this._disposables) {
+            try { d.dispose(); } catch (e) { /* ignore */ }
+        }
         try {
             // Clear any pending debounce timers to avoid retaining closures
             for (const t of this._watchDebounceTimers.values()) {
@@ -79,15 +162,50 @@ export default class DiredProvider implements vscode.TextDocumentContentProvider
         } catch (e) { /* ignore */ }
     }
 
-    // Clear any in-memory buffers held by the provider to free memory.
-    public clearBuffers() {
+    // Free the rendered lines and watcher of a closed Dired document. Its
+    // marks, sort order and cursor memory are kept for when it is reopened.
+    public releaseBuffer(uri: vscode.Uri) {
         try {
-            this._buffers = [];
+            const buf = this._bufferStates.get(uri.toString());
+            if (buf) buf.release();
             // Also free any cached per-directory metadata to reduce retained memory.
             try { this._dirCache.clear(); } catch (e) { /* ignore */ }
         } catch (e) { /* ignore */ }
     }
 
+    // State of the Dired document `uri`, created on first use. A plain
+    // directory URI lists its path; a find-dired URI carries its arguments.
+    public bufferFor(uri: vscode.Uri): DiredBuffer {
+        const key = uri.toString();
+        let buf = this._bufferStates.get(key);
+        if (!buf) {
+            // the fixed-window URI learns its directory in `openDir`
+            const dir = key === FIXED_URI.toString() ? '' : uri.fsPath;
+            buf = new DiredBuffer(uri, dir, DiredProvider.findArgs(uri));
+            this._bufferStates.set(key, buf);
+        }
+        return buf;
+    }
+
+    // The Dired editor commands act on: the active editor, or the most
+    // recently focused Dired editor that is still visible.
+    private get activeEditor(): vscode.TextEditor | undefined {
+        const at = vscode.window.activeTextEditor;
+        if (at && at.document && at.document.uri.scheme === DiredProvider.scheme) return at;
+        const last = this._lastActiveUri;
+        if (!last) return undefined;
+        return vscode.window.visibleTextEditors.find((e) => e.document && e.document.uri.toString() === last);
+    }
+
+    private get activeBuffer(): DiredBuffer | undefined {
+        const at = this.activeEditor;
+        if (!at) return undefined;
+        const buf = this.bufferFor(at.document.uri);
+        // e.g. a fixed-window document restored before `openDir` ran
+        if (!buf.dir && at.document.lineCount) buf.dir = DiredProvider.dirFromHeader(at.document.lineAt(0).text);
+        return buf;
+    }
+
     get onDidChange() {
         return this._onDidChange.event;
     }
@@ -101,61 +219,219 @@ export default class DiredProvider implements vscode.TextDocumentContentProvider
         return this._onDidChangeFile.event;
     }
 
+    get onDidCheckEdit() {
+        return this._onDidCheckEdit.event;
+    }
+
+    // Main directory of the active Dired buffer.
     get dirname() {
-        const at = vscode.window.activeTextEditor;
-        if (!at) {
-            return undefined;
+        const buf = this.activeBuffer;
+        return buf && buf.dir ? buf.dir : undefined;
+    }
+
+    // Extract the directory from a header line. Header may be of the form
+    // "Dired: <dir>:" or simply "<dir>:", optionally followed by indicators.
+    public static dirFromHeader(line: string): string {
+        const m = HEADER_RE.exec(line || '');
+        if (m) return m[1].trim();
+        return (line || '').replace(/:\s*$/, '').replace(/^Dired:\s*/, '').trim();
+    }
+
+    // True for section header lines ("<dir>:" plus optional indicators).
+    // Entry lines always start with the mark column (a space or '*').
+    public static isHeaderLine(line: string): boolean {
+        return !!line && !/^[\s*]/.test(line) && HEADER_RE.test(line);
+    }
+
+    // Directory of the section containing `line`: the nearest section header
+    // at or above it. A buffer holds the main directory plus any
+    // subdirectories inserted inline.
+    public static entryDir(doc: LineSource, line: number): string {
+        for (let i = Math.min(line, doc.lineCount - 1); i >= 0; i--) {
+            const text = doc.lineAt(i).text;
+            if (DiredProvider.isHeaderLine(text)) return DiredProvider.dirFromHeader(text);
         }
-        const doc = at.document;
-        if (!doc) {
-            return undefined;
+        return '';
+    }
+
+    // Parse the entry on `line`, resolved against the directory it is listed
+    // in (its section, or its parent in an expanded tree).
+    // Returns null for headers, blank lines and other non-entry lines.
+    public static parseEntryAt(doc: LineSource, line: number): FileItem | null {
+        if (line < 0 || line >= doc.lineCount) return null;
+        const text = doc.lineAt(line).text;
+        if (!text || !text.trim() || DiredProvider.isHeaderLine(text)) return null;
+        for (const e of DiredProvider.entries(doc, line, line + 1)) {
+            return e.item;
         }
-        const line0 = doc.lineAt(0).text;
-        // Header may be of the form "Dired: <dir>:" or simply "<dir>:" for backward compatibility.
-        let header = line0.substring(0, line0.length - 1);
-        header = header.replace(/^Dired:\s*/, '');
-        // Trim whitespace
-        const dir = header.trim();
-        return dir;
+        return null;
     }
 
-    async toggleDotFiles() {
-        this._show_dot_files = !this._show_dot_files;
-        // If we can resolve the current directory, notify that directory changed so
-        // both the per-directory URI and the active Dired URI (fixed_window support)
-        // get refreshed. Fall back to reload() if dirname is not available.
-        const dir = this.dirname;
-        // Ensure cache no longer serves stale listings which don't reflect the
-        // updated `_show_dot_files` value. Delete the per-dir cache entry so
-        // `createBuffer` will rebuild the listing taking `_show_dot_files` into
-        // account. If `dir` is not set, clear all caches to be safe.
-        try {
-            if (dir) {
-                this._dirCache.delete(dir);
-            } else {
-                this._dirCache.clear();
+    // Iterate over the entries in lines [start, end). Iteration begins at the
+    // section header above `start` so that entries nested in expanded
+    // directories resolve against their parent directory.
+    public static *entries(doc: LineSource, start = 0, end?: number): IterableIterator<{ line: number, item: FileItem }> {
+        const stop = Math.min(end === undefined ? doc.lineCount : end, doc.lineCount);
+        let from = Math.min(Math.max(0, start), doc.lineCount - 1);
+        while (from > 0 && !DiredProvider.isHeaderLine(doc.lineAt(from).text)) from--;
+        // dirs[d] is the directory holding entries at tree depth d
+        let dirs: string[] = ['.'];
+        for (let i = Math.max(0, from); i < stop; i++) {
+            const text = doc.lineAt(i).text;
+            if (!text || !text.trim()) continue;
+            if (DiredProvider.isHeaderLine(text)) {
+                dirs = [DiredProvider.dirFromHeader(text) || '.'];
+                continue;
             }
-        } catch (e) { /* ignore cache deletion errors */ }
-        if (dir) {
-            await this.notifyDirChanged(dir);
-        } else {
-            this.reload();
+            try {
+                let item = FileItem.parseLine(dirs[0], text);
+                if (!item || !item.fileName) continue;
+                const depth = Math.min(item.depth, dirs.length - 1);
+                if (depth > 0) item = FileItem.parseLine(dirs[depth], text);
+                dirs = dirs.slice(0, depth + 1);
+                dirs.push(item.path);
+                if (i >= start) yield { line: i, item };
+            } catch (e) { /* ignore parse errors */ }
+        }
+    }
+
+    // Foldable regions: each section from its header to its last entry, and
+    // each expanded directory over its nested entries.
+    public static foldingRanges(doc: LineSource): Array<{ start: number, end: number }> {
+        const ranges: Array<{ start: number, end: number }> = [];
+        const headers = DiredProvider.headerLines(doc);
+        headers.forEach((h, k) => {
+            let last = (k + 1 < headers.length ? headers[k + 1] : doc.lineCount) - 1;
+            while (last > h && !doc.lineAt(last).text.trim()) last--;
+            if (last > h) ranges.push({ start: h, end: last });
+        });
+        const open: Array<{ line: number, depth: number }> = [];
+        let prev = -1;
+        const close = (depth: number) => {
+            while (open.length && open[open.length - 1].depth >= depth) {
+                const o = open.pop() as { line: number, depth: number };
+                if (prev > o.line) ranges.push({ start: o.line, end: prev });
+            }
+        };
+        for (const { line, item } of DiredProvider.entries(doc)) {
+            // a new section always starts at depth 0, closing every open directory
+            close(item.depth);
+            if (item.isDirectory) open.push({ line, depth: item.depth });
+            prev = line;
         }
+        close(0);
+        return ranges;
     }
 
+    // Keep the entries accepted by `accept`, plus the directories leading to
+    // them in an expanded tree so nested entries still resolve. Headers,
+    // separators and the `.`/`..` entries are always kept.
+    public static narrowLines(lines: string[], accept: (item: FileItem) => boolean): string[] {
+        const entryLines = new Set<number>();
+        const keep = new Set<number>();
+        let ancestors: number[] = [];
+        for (const { line, item } of DiredProvider.entries(arrayLines(lines))) {
+            entryLines.add(line);
+            ancestors = ancestors.slice(0, item.depth);
+            if (item.fileName === '.' || item.fileName === '..' || accept(item)) {
+                keep.add(line);
+                for (const a of ancestors) keep.add(a);
+            }
+            ancestors.push(line);
+        }
+        return lines.filter((_text, i) => !entryLines.has(i) || keep.has(i));
+    }
+
+    // Line numbers of all section headers in the document.
+    public static headerLines(doc: LineSource): number[] {
+        const result: number[] = [];
+        for (let i = 0; i < doc.lineCount; i++) {
+            if (DiredProvider.isHeaderLine(doc.lineAt(i).text)) result.push(i);
+        }
+        return result;
+    }
+
+    // Sort order of a Dired buffer (the active one by default), falling back
+    // to the configured default.
+    public getSortOrder(buf: DiredBuffer | undefined = this.activeBuffer): SortOrder {
+        if (buf && buf.sortOrder) return buf.sortOrder;
+        const cfg = vscode.workspace.getConfiguration('dired');
+        const key = cfg.get<string>('sortBy');
+        return {
+            key: isSortKey(key) ? key : DEFAULT_SORT_ORDER.key,
+            reverse: cfg.get<boolean>('sortReverse') || false,
+            dirsFirst: cfg.get<boolean>('sortDirectoriesFirst') || false
+        };
+    }
+
+    async setSortOrder(order: SortOrder) {
+        const buf = this.activeBuffer;
+        if (!buf) return;
+        buf.sortOrder = order;
+        // The cached entries are still valid; re-rendering only re-sorts them.
+        await this.refreshBuffer(buf);
+    }
+
+    // Advance to the next sort key, keeping the reverse/dirs-first toggles.
+    async cycleSortKey(): Promise<SortOrder> {
+        const cur = this.getSortOrder();
+        const next = { ...cur, key: nextSortKey(cur.key) };
+        await this.setSortOrder(next);
+        return next;
+    }
+
+    async toggleDotFiles() {
+        await this.toggleOmitPreset(DOT_FILES_PATTERN);
+    }
+
+    // Toggle display of `.meta` files (e.g., Unity .meta files)
     async toggleMetaFiles() {
-        this._show_meta_files = !this._show_meta_files;
-        const dir = this.dirname;
-        // Clear cache for the current dir or all to ensure listing rebuild reflects meta visibility
+        await this.toggleOmitPreset(META_FILES_PATTERN);
+    }
+
+    async toggleOmitMode() {
+        this._omitMode = !this._omitMode;
+        await this.refreshAll();
+    }
+
+    private async toggleOmitPreset(pattern: string) {
+        if (this._omitPresets.has(pattern)) this._omitPresets.delete(pattern);
+        else this._omitPresets.add(pattern);
+        await this.refreshAll();
+    }
+
+    // Re-render every open Dired buffer, e.g. after the omit settings or the
+    // column layout changed. Listings are cached unfiltered, so the directory
+    // cache stays valid for omit changes.
+    public async refreshAll() {
+        for (const buf of Array.from(this._bufferStates.values())) {
+            if (buf.lines.length) await this.refreshBuffer(buf);
+        }
+    }
+
+    // Re-render `buf` and tell VS Code its document changed.
+    private async refreshBuffer(buf: DiredBuffer) {
         try {
-            if (dir) this._dirCache.delete(dir);
-            else this._dirCache.clear();
+            await this.renderBuffer(buf);
+            this._onDidChange.fire(buf.uri);
+            this._onDidChangeFile.fire([{ type: vscode.FileChangeType.Changed, uri: buf.uri }]);
         } catch (e) { /* ignore */ }
-        if (dir) {
-            await this.notifyDirChanged(dir);
-        } else {
-            this.reload();
+    }
+
+    // Decide which entries of `dir` are hidden, or undefined when nothing is.
+    private async omitPredicate(dir: string): Promise<OmitPredicate | undefined> {
+        const patterns = Array.from(this._omitPresets);
+        let chain: IgnoreFile[] = [];
+        if (this._omitMode) {
+            // resource-scoped so folder settings can override the patterns
+            const cfg = vscode.workspace.getConfiguration('dired', vscode.Uri.file(dir));
+            patterns.push(...(cfg.get<string[]>('omitPatterns') || []));
+            if (cfg.get<boolean>('omitGitIgnored')) {
+                try { chain = await this._ignoreIndex.chainFor(dir); } catch (e) { /* ignore unreadable ignore files */ }
+            }
         }
+        if (!patterns.length && !chain.length) return undefined;
+        return makeOmitPredicate(dir, patterns, chain);
     }
 
     enter() {
@@ -163,8 +439,20 @@ export default class DiredProvider implements vscode.TextDocumentContentProvider
         if (!f) {
             return;
         }
+        // a trash entry opens from where it is stored
+        const buf = this.activeBuffer;
+        const trashed = buf && buf.isTrash ? buf.trashEntries.get(path.resolve(f.path)) : undefined;
+        if (trashed) {
+            const stored = trashedPath(trashed);
+            if (f.isDirectory) this.openDir(stored);
+            else this.showFile(vscode.Uri.file(stored));
+            return;
+        }
         const uri = f.uri;
         if (!uri) {
+            if (f.isBrokenLink) {
+                vscode.window.setStatusBarMessage(`Broken link: ${f.fileName} -> ${f.linkTarget}`, 3000);
+            }
             return;
         }
         // If the user pressed Enter on the parent entry, go up one directory
@@ -176,20 +464,376 @@ export default class DiredProvider implements vscode.TextDocumentContentProvider
             this.showFile(uri);
             return;
         }
-        this.openDir(f.path);
+        // Symbolic links resolve to their target directory
+        this.openDir(f.isSymbolicLink ? uri.fsPath : f.path);
+    }
+
+    // Open the directory containing the target of the symbolic link at point
+    // and place the cursor on the target entry.
+    jumpToLinkTarget() {
+        const f = this.getFile();
+        if (!f || !f.isSymbolicLink) {
+            vscode.window.setStatusBarMessage('Not a symbolic link', 3000);
+            return;
+        }
+        const target = f.linkTargetPath;
+        if (!target || f.isBrokenLink) {
+            vscode.window.setStatusBarMessage(`Broken link: ${f.fileName} -> ${f.linkTarget}`, 3000);
+            return;
+        }
+        this.openDir(path.dirname(target), path.basename(target));
+    }
+
+    // Directory of the section under the cursor. Falls back to the main
+    // directory when the cursor is outside any inserted subdirectory.
+    get currentDir(): string | undefined {
+        const at = this.activeEditor;
+        if (!at || !at.document) {
+            return undefined;
+        }
+        return DiredProvider.entryDir(at.document, at.selection.active.line) || this.dirname;
+    }
+
+    // Directories shown in the other visible Dired editors, in editor column
+    // order: the "do what I mean" destinations for copy and move.
+    public otherPaneDirs(): string[] {
+        const at = this.activeEditor;
+        const self = at ? at.document.uri.toString() : undefined;
+        const own = this.dirname ? path.resolve(this.dirname) : undefined;
+        const editors = vscode.window.visibleTextEditors
+            .filter((e) => e.document && e.document.uri.scheme === DiredProvider.scheme && e.document.uri.toString() !== self)
+            .sort((a, b) => (a.viewColumn || 0) - (b.viewColumn || 0));
+        const dirs: string[] = [];
+        for (const e of editors) {
+            const buf = this.bufferFor(e.document.uri);
+            let dir = buf.dir;
+            if (!dir && e.document.lineCount) dir = DiredProvider.dirFromHeader(e.document.lineAt(0).text);
+            if (!dir) continue;
+            dir = path.resolve(dir);
+            if (dir !== own && dirs.indexOf(dir) < 0) dirs.push(dir);
+        }
+        return dirs;
+    }
+
+    // Narrowing filter of the active Dired buffer.
+    public getNarrowFilter(uri: vscode.Uri = this.uri): NameFilter | undefined {
+        return this.bufferFor(uri).filter;
+    }
+
+    // Set or clear (undefined) the narrowing filter of a Dired buffer and
+    // re-render it from the current listing.
+    public setNarrowFilter(filter: NameFilter | undefined, uri: vscode.Uri = this.uri) {
+        const buf = this.bufferFor(uri);
+        buf.filter = filter;
+        buf.reuseListing = true;
+        this._onDidChange.fire(uri);
+        this._onDidChangeFile.fire([{ type: vscode.FileChangeType.Changed, uri }]);
+    }
+
+    // Open a find-dired buffer listing the entries under `root` that match
+    // the find arguments (see src/find.ts).
+    async openFind(root: string, args: string) {
+        try {
+            parseFindArgs(args);
+        } catch (err) {
+            vscode.window.setStatusBarMessage(`find: ${err instanceof Error ? err.message : err}`, 5000);
+            return;
+        }
+        try {
+            const doc = await vscode.workspace.openTextDocument(DiredProvider.findUri(root, args));
+            try { await vscode.languages.setTextDocumentLanguage(doc, 'dired'); } catch (e) { /* ignore */ }
+            const editor = await vscode.window.showTextDocument(doc, this.getTextDocumentShowOptions(false));
+            if (editor.document.lineCount > 1) {
+                const item = DiredProvider.parseEntryAt(editor.document, 1);
+                this.revealLine(editor, 1, (item && item.startColumn) || 0);
+            }
+        } catch (err) {
+            vscode.window.setStatusBarMessage(`Failed to run find under ${root}: ${err}`, 5000);
+        }
+    }
+
+    // Open the trash buffer listing the freedesktop trash (see src/trash.ts).
+    async openTrash() {
+        try {
+            const doc = await vscode.workspace.openTextDocument(DiredProvider.trashUri());
+            try { await vscode.languages.setTextDocumentLanguage(doc, 'dired'); } catch (e) { /* ignore */ }
+            const editor = await vscode.window.showTextDocument(doc, this.getTextDocumentShowOptions(false));
+            if (editor.document.lineCount > 1) {
+                const item = DiredProvider.parseEntryAt(editor.document, 1);
+                this.revealLine(editor, 1, (item && item.startColumn) || 0);
+            }
+        } catch (err) {
+            vscode.window.setStatusBarMessage(`Failed to open the trash: ${err}`, 5000);
+        }
+    }
+
+    // True when the active Dired buffer lists the trash.
+    get inTrashBuffer(): boolean {
+        const buf = this.activeBuffer;
+        return !!buf && buf.isTrash;
+    }
+
+    // True when the active Dired buffer is in wdired edit mode.
+    get inEditMode(): boolean {
+        const buf = this.activeBuffer;
+        return !!buf && buf.isEditing;
+    }
+
+    // Make the active buffer writable (wdired). Saving it applies the edited
+    // file names; `abortEdit` drops the edits. The trash buffer, whose lines
+    // are not in the directories they name, cannot be edited.
+    public startEdit(): boolean {
+        const buf = this.activeBuffer;
+        if (!buf || buf.isTrash || !buf.lines.length) return false;
+        if (buf.isEditing) return true;
+        buf.editBase = buf.lines.slice();
+        buf.editStarted = Date.now();
+        // VS Code re-reads the stat and drops the read-only state
+        this._onDidChangeFile.fire([{ type: vscode.FileChangeType.Changed, uri: buf.uri }]);
+        return true;
+    }
+
+    // Leave edit mode without applying anything. The caller reverts the
+    // document, which re-reads the listing.
+    public abortEdit(uri?: vscode.Uri): boolean {
+        const buf = uri ? this.bufferFor(uri) : this.activeBuffer;
+        if (!buf || !buf.isEditing) return false;
+        buf.editBase = undefined;
+        this._onDidCheckEdit.fire({ uri: buf.uri, problems: [] });
+        this.refreshBuffer(buf).then(undefined, () => { /* ignore */ });
+        return true;
+    }
+
+    // Trash entries of the marked lines of the trash buffer, or of the line at point.
+    public selectedTrashEntries(): TrashEntry[] {
+        const buf = this.activeBuffer;
+        if (!buf || !buf.isTrash) return [];
+        const marked = Array.from(buf.marks);
+        const f = this.getFile();
+        const keys = marked.length ? marked : (f ? [f.path] : []);
+        const entries: TrashEntry[] = [];
+        for (const key of keys) {
+            const entry = buf.trashEntries.get(path.resolve(key));
+            if (entry) entries.push(entry);
+        }
+        return entries;
+    }
+
+    // Re-read the trash in every open trash buffer. Marks of entries that
+    // left the trash are dropped.
+    public async refreshTrash() {
+        for (const buf of Array.from(this._bufferStates.values())) {
+            if (!buf.isTrash || !buf.lines.length) continue;
+            await this.refreshBuffer(buf);
+            buf.marks = new Set(Array.from(buf.marks).filter((m) => buf.trashEntries.has(m)));
+        }
+        try { this._onDidSelectChange.fire(); } catch (e) { /* ignore */ }
+    }
+
+    // Inserted sections and subtrees only exist for real directory listings.
+    private inFindBuffer(editor: vscode.TextEditor): boolean {
+        if (DiredProvider.findArgs(editor.document.uri) === undefined && editor.document.uri.query !== TRASH_QUERY) return false;
+        vscode.window.setStatusBarMessage('Not available in find-dired or trash buffers', 3000);
+        return true;
+    }
+
+    // Insert the listing of the subdirectory at point below the existing
+    // sections (Emacs `i`). If it is already inserted, just move to its header.
+    async insertSubdir() {
+        const at = this.activeEditor;
+        const buf = this.activeBuffer;
+        if (!at || !buf || !buf.dir || this.inFindBuffer(at)) return;
+        const f = this.getFile();
+        if (!f || f.fileName === '.' || f.fileName === '..') {
+            vscode.window.setStatusBarMessage('Not a subdirectory', 3000);
+            return;
+        }
+        const uri = f.uri;
+        if (!uri || uri.scheme !== DiredProvider.scheme) {
+            vscode.window.setStatusBarMessage(`${f.fileName} is not a directory`, 3000);
+            return;
+        }
+        const sub = path.resolve(f.path);
+        if (buf.insertedSubdirs.indexOf(sub) < 0) {
+            // Keep sections in path order so nested subdirectories follow their parent
+            buf.insertedSubdirs = buf.insertedSubdirs.concat(sub).sort();
+            const updated = this.waitForDocumentUpdate(at.document);
+            await this.refreshBuffer(buf);
+            await updated;
+        }
+        this.moveToSection(at, sub);
+    }
+
+    // Remove the inserted subdirectory section under the cursor, together with
+    // any subdirectories inserted below it, and move to its entry in the parent.
+    async removeSubdir() {
+        const at = this.activeEditor;
+        const buf = this.activeBuffer;
+        const dir = this.currentDir;
+        if (!at || !buf || !buf.dir || !dir) return;
+        const sub = path.resolve(dir);
+        if (sub === path.resolve(buf.dir)) {
+            vscode.window.setStatusBarMessage('Cannot remove the main directory section', 3000);
+            return;
+        }
+        buf.insertedSubdirs = buf.insertedSubdirs.filter((d) => d !== sub && !d.startsWith(sub + path.sep));
+        const updated = this.waitForDocumentUpdate(at.document);
+        await this.refreshBuffer(buf);
+        await updated;
+        for (const { line, item } of DiredProvider.entries(at.document)) {
+            if (path.resolve(item.path) === sub) {
+                this.revealLine(at, line, item.startColumn || 0);
+                return;
+            }
+        }
+    }
+
+    // Expand the directory at point in place as an indented subtree, or
+    // collapse it when already expanded (dired-subtree). On a nested entry that
+    // is not an expanded directory, collapse the subtree containing it.
+    async toggleSubtree() {
+        const at = this.activeEditor;
+        const buf = this.activeBuffer;
+        if (!at || !buf || !buf.dir || this.inFindBuffer(at)) return;
+        const f = this.getFile();
+        if (!f || f.fileName === '.' || f.fileName === '..') {
+            vscode.window.setStatusBarMessage('Not a subdirectory', 3000);
+            return;
+        }
+        const expanded = buf.expandedDirs;
+        const abs = path.resolve(f.path);
+        let focus = abs;
+        if (expanded.has(abs)) {
+            this.collapseTree(expanded, abs);
+        } else if (f.isDirectory) {
+            expanded.add(abs);
+        } else if (f.depth > 0) {
+            focus = path.resolve(f.dirname);
+            this.collapseTree(expanded, focus);
+        } else {
+            vscode.window.setStatusBarMessage(`${f.fileName} is not a directory`, 3000);
+            return;
+        }
+        const updated = this.waitForDocumentUpdate(at.document);
+        await this.refreshBuffer(buf);
+        await updated;
+        for (const { line, item } of DiredProvider.entries(at.document)) {
+            if (path.resolve(item.path) === focus) {
+                this.revealLine(at, line, item.startColumn || 0);
+                return;
+            }
+        }
+    }
+
+    // Drop `dir` and every directory expanded beneath it.
+    private collapseTree(expanded: Set<string>, dir: string) {
+        for (const d of Array.from(expanded)) {
+            if (d === dir || d.startsWith(dir + path.sep)) expanded.delete(d);
+        }
+    }
+
+    // Move the cursor to the next/previous section header.
+    nextSubdir() {
+        this.moveToHeader(1);
+    }
+
+    prevSubdir() {
+        this.moveToHeader(-1);
+    }
+
+    private moveToHeader(direction: number) {
+        const at = this.activeEditor;
+        if (!at) return;
+        const cur = at.selection.active.line;
+        const headers = DiredProvider.headerLines(at.document);
+        const target = direction > 0
+            ? headers.find((l) => l > cur)
+            : headers.filter((l) => l < cur).pop();
+        if (target === undefined) {
+            vscode.window.setStatusBarMessage(direction > 0 ? 'No next subdirectory' : 'No previous subdirectory', 2000);
+            return;
+        }
+        this.revealLine(at, target, 0);
+    }
+
+    nextMarked() {
+        this.moveToMarked(1);
+    }
+
+    prevMarked() {
+        this.moveToMarked(-1);
+    }
+
+    // Move to the next or previous marked entry, wrapping around the buffer.
+    private moveToMarked(direction: number) {
+        const at = this.activeEditor;
+        const buf = this.activeBuffer;
+        if (!at || !buf) return;
+        const marked: { line: number, col: number }[] = [];
+        for (const { line, item } of DiredProvider.entries(at.document)) {
+            if (buf.marks.has(path.resolve(item.path))) marked.push({ line, col: item.startColumn || 0 });
+        }
+        if (!marked.length) {
+            vscode.window.setStatusBarMessage('No marked entries', 2000);
+            return;
+        }
+        const cur = at.selection.active.line;
+        let target = direction > 0
+            ? marked.find((m) => m.line > cur)
+            : marked.filter((m) => m.line < cur).pop();
+        if (!target) {
+            target = direction > 0 ? marked[0] : marked[marked.length - 1];
+            if (target.line !== cur) vscode.window.setStatusBarMessage('Dired: wrapped around', 1500);
+        }
+        this.revealLine(at, target.line, target.col);
+    }
+
+    private moveToSection(editor: vscode.TextEditor, dir: string) {
+        for (const line of DiredProvider.headerLines(editor.document)) {
+            if (path.resolve(DiredProvider.dirFromHeader(editor.document.lineAt(line).text)) === dir) {
+                this.revealLine(editor, line, 0);
+                return;
+            }
+        }
+    }
+
+    private revealLine(editor: vscode.TextEditor, line: number, col: number) {
+        const pos = new vscode.Position(line, Math.min(col, editor.document.lineAt(line).text.length));
+        editor.selection = new vscode.Selection(pos, pos);
+        editor.revealRange(new vscode.Range(pos, pos), vscode.TextEditorRevealType.InCenterIfOutsideViewport);
+    }
+
+    // Resolve once `doc` has been re-rendered (or after a short timeout) so the
+    // cursor can be placed on lines that did not exist before the refresh.
+    private waitForDocumentUpdate(doc: vscode.TextDocument, timeoutMs = 1000): Promise<void> {
+        return new Promise((resolve) => {
+            let done = false;
+            const finish = () => {
+                if (done) return;
+                done = true;
+                try { sub.dispose(); } catch (e) { /* ignore */ }
+                clearTimeout(timer);
+                resolve();
+            };
+            const sub = vscode.workspace.onDidChangeTextDocument((ev) => {
+                if (ev.document === doc) finish();
+            });
+            const timer = setTimeout(finish, timeoutMs);
+        });
     }
 
     reload() {
-        if (!this.dirname) {
+        const buf = this.activeBuffer;
+        if (!buf || !buf.dir) {
             return;
         }
-        this.createBuffer(this.dirname)
-            .then(() => this._onDidChange.fire(this.uri));
+        this._gitStatus.invalidate(buf.dir);
+        this.refreshBuffer(buf).then(undefined, () => { /* ignore */ });
     }
 
-    // --- Minimal FileSystemProvider implementations so dired:// documents become editable ---
-    // These are deliberately minimal: enough for VS Code to treat the `dired` scheme as writable
-    // and to let us detect and apply filename changes when the buffer is saved.
+    // --- Minimal FileSystemProvider implementations so dired:// documents can be edited ---
+    // These are deliberately minimal: a buffer is read-only until wdired edit
+    // mode is entered, and saving it then applies the edited file names.
 
     // Watch notifications - not fully implemented (no-op watcher)
     watch(_resource: vscode.Uri, _opts: { recursive: boolean; excludes: string[]; }): vscode.Disposable {
@@ -197,14 +841,20 @@ export default class DiredProvider implements vscode.TextDocumentContentProvider
         return new vscode.Disposable(() => { });
     }
 
-    // Return file stat for the dired virtual file (we report it as a file)
+    // Return file stat for the dired virtual file (we report it as a file).
+    // In edit mode it describes the listing editing started from, so saving
+    // does not find the document changed on disk.
     stat(resource: vscode.Uri): vscode.FileStat {
+        const buf = this.bufferFor(resource);
+        const lines = buf.editBase || buf.lines;
+        const time = buf.editBase ? buf.editStarted : Date.now();
         return {
             type: vscode.FileType.File,
-            ctime: Date.now(),
-            mtime: Date.now(),
+            ctime: time,
+            mtime: time,
             // compute size without creating an intermediate Buffer to reduce memory churn
-            size: this._buffers ? TEXT_ENCODER.encode(this._buffers.join('\n')).length : 0
+            size: lines.length ? TEXT_ENCODER.encode(lines.join('\n')).length : 0,
+            permissions: buf.editBase ? undefined : vscode.FilePermission.Readonly
         };
     }
 
@@ -213,68 +863,197 @@ export default class DiredProvider implements vscode.TextDocumentContentProvider
         return [];
     }
 
-    // When opening a dired://<dir> document, VS Code calls readFile. Return the rendered listing.
+    // When opening a dired://<dir> document, VS Code calls readFile. Return the
+    // rendered listing, or in edit mode the listing editing started from.
     async readFile(uri: vscode.Uri): Promise<Uint8Array> {
-        const dir = uri.fsPath;
-        await this.createBuffer(dir);
-        const content = this._buffers.join('\n');
+        const buf = this.bufferFor(uri);
+        const content = (buf.editBase || await this.renderBuffer(buf)).join('\n');
         // Return a Uint8Array. Buffer is a Uint8Array at runtime but some TS settings
         // (lib/DOM/SharedArrayBuffer differences) can make the types incompatible.
         // Use TextEncoder to produce a proper Uint8Array instead of relying on Buffer.
         return TEXT_ENCODER.encode(content);
     }
 
-    // When the user saves the dired buffer, VS Code will call writeFile with the new content.
-    // We compare the new contents against the current directory listing and apply renames
-    // for lines whose filename column (from col 52) changed.
+    // Saving a buffer in edit mode applies the edit (see src/wdired.ts): the
+    // new text is matched with the listing editing started from, the
+    // resulting renames, mode changes (and deletes, with
+    // `dired.wdiredDeleteRemovedLines`) are validated and shown for
+    // confirmation, then applied as one undoable step. Problems fail the save, so the edits stay in the document.
     async writeFile(uri: vscode.Uri, content: Uint8Array, _options: { create: boolean; overwrite: boolean }): Promise<void> {
-        const dir = uri.fsPath;
-        // Ensure current buffer reflects actual FS state before compare
-        await this.createBuffer(dir);
-        const oldLines = this._buffers.slice();
+        const buf = this.bufferFor(uri);
+        const base = buf.editBase;
+        if (!base) throw vscode.FileSystemError.NoPermissions('Dired: enter edit mode (extension.dired.wdiredEdit) to rename files or change modes');
         // decode without allocating an intermediate Node Buffer
-        const newText = TEXT_DECODER.decode(content);
-        const newLines = newText.split(/\r?\n/);
-
-        // Align lengths by padding with empty strings if needed
-        const maxLines = Math.max(oldLines.length, newLines.length);
-        for (let i = 0; i < maxLines; i++) {
-            const oldLine = oldLines[i] || '';
-            const newLine = newLines[i] || '';
-            // Only consider data lines (skip header line 0)
-            if (i === 0) continue;
-            if (!oldLine && !newLine) continue;
-
-            // Extract filename portion using FileItem.parseLine (robust to field sizes)
-            let oldName = '';
-            let newName = '';
+        const newLines = TEXT_DECODER.decode(content).split(/\r?\n/);
+        const listed: ListedEntry[] = [];
+        for (const { line, item } of DiredProvider.entries(arrayLines(base))) {
+            listed.push({ line, dir: item.dirname || buf.dir, name: item.fileName });
+        }
+        const allowDelete = vscode.workspace.getConfiguration('dired', vscode.Uri.file(buf.dir)).get<boolean>('wdiredDeleteRemovedLines') || false;
+        const plan = await planEdit(base, newLines, listed, allowDelete);
+        this._onDidCheckEdit.fire({ uri, problems: plan.problems });
+        if (plan.problems.length) {
+            const first = plan.problems[0];
+            throw new Error(`Dired: ${plan.problems.length} problem${plan.problems.length === 1 ? '' : 's'} in the edit (line ${first.line + 1}: ${first.message})`);
+        }
+        if ((plan.renames.length || plan.chmods.length || plan.deletes.length) && !(await confirmPlan(plan))) {
+            throw new Error('Dired: edit not applied');
+        }
+
+        // Deletes go first so their names can be reused; the moves include
+        // those through temporary names, so undo can replay them in reverse.
+        // Modes change last, so removing a permission cannot stop a rename.
+        const steps: UndoStep[] = [];
+        const failed: string[] = [];
+        for (const target of plan.deletes) {
             try {
-                const oldItem = FileItem.parseLine(dir, oldLine);
-                oldName = oldItem ? oldItem.fileName : '';
-            } catch (e) { /* ignore */ }
+                steps.push(await this.deletePath(target));
+            } catch (e) {
+                failed.push(`${path.basename(target)}: ${e}`);
+            }
+        }
+        const renamed = await applyRenames(plan.renames, (from, to) => this.movePath(from, to));
+        for (const { src, dest } of renamed.moves) steps.push({ type: 'move', src, dest });
+        failed.push(...renamed.failed);
+        for (const c of plan.chmods) {
+            let target = c.path;
+            for (const move of renamed.moves) target = movedPath(target, [move]);
             try {
-                const newItem = FileItem.parseLine(dir, newLine);
-                newName = newItem ? newItem.fileName : '';
-            } catch (e) { /* ignore */ }
-
-            if (oldName && newName && oldName !== newName) {
-                const oldPath = path.join(dir, oldName);
-                const newPath = path.join(dir, newName);
-                try {
-                    // Perform rename on filesystem
-                    await fs.promises.rename(oldPath, newPath);
-                    vscode.window.setStatusBarMessage(`${oldName} -> ${newName}`, 3000);
-                } catch (err) {
-                    vscode.window.setStatusBarMessage(`Failed to rename ${oldName} -> ${newName}: ${err}`, 5000);
-                }
+                const from = (await fs.promises.lstat(target)).mode & 0o7777;
+                await fs.promises.chmod(target, c.mode);
+                steps.push({ type: 'chmod', path: target, from, to: c.mode });
+            } catch (e) {
+                failed.push(`${path.basename(c.path)}: ${e}`);
             }
         }
+        const parts = [`${plan.renames.length} rename${plan.renames.length === 1 ? '' : 's'}`];
+        if (plan.chmods.length) parts.push(`${plan.chmods.length} mode change${plan.chmods.length === 1 ? '' : 's'}`);
+        if (plan.deletes.length) parts.push(`${plan.deletes.length} delete${plan.deletes.length === 1 ? '' : 's'}`);
+        await this.history.record('wdired', `Edit ${path.basename(buf.dir)}: ${parts.join(', ')}`, steps);
+        if (failed.length) {
+            vscode.window.showWarningMessage(`Dired: ${failed.length} change${failed.length === 1 ? '' : 's'} failed: ${failed.slice(0, 5).join('; ')}`);
+        } else if (steps.length) {
+            vscode.window.setStatusBarMessage(`Dired: ${parts.join(', ')} applied`, 3000);
+        }
 
-        // Rebuild buffer from FS and notify content changed
-        await this.createBuffer(dir);
+        // Leave edit mode, rebuild the buffers from the filesystem and notify
+        buf.editBase = undefined;
+        const dirs = new Set<string>([buf.dir]);
+        for (const step of steps) {
+            if (step.type === 'move') dirs.add(path.dirname(step.src)).add(path.dirname(step.dest));
+            else dirs.add(path.dirname(step.path));
+        }
+        for (const dir of dirs) this._gitStatus.invalidate(dir);
+        await this.renderBuffer(buf);
         this._onDidChange.fire(uri);
         // Emit file change events for consumers
         this._onDidChangeFile.fire([{ type: vscode.FileChangeType.Changed, uri }]);
+        for (const dir of dirs) await this.notifyDirChanged(dir);
+    }
+
+    // Delete `target` by moving it into the staging area, where undo finds it
+    // again; with `dired.useGit` a tracked entry's deletion is also staged in
+    // git. Resolves the undo step, which records both.
+    public async deletePath(target: string, progress?: TreeProgress): Promise<DeleteStep> {
+        const step: DeleteStep = { type: 'delete', path: path.resolve(target), backup: await this.history.staging.stage(target, progress) };
+        if (vscode.workspace.getConfiguration('dired', vscode.Uri.file(target)).get<boolean>('useGit')) {
+            try {
+                if (await gitRemove(target)) step.git = true;
+            } catch (e) {
+                vscode.window.setStatusBarMessage(`git rm failed for ${target}: ${e}`, 5000);
+            }
+        }
+        return step;
+    }
+
+    // Rename on the filesystem, or with `git mv` for tracked files when
+    // `dired.useGit` is enabled so the rename is staged. Missing parents are
+    // created and moves across filesystems fall back to copy and delete.
+    // Resolves where the entry ended up, or undefined when `onConflict`
+    // skipped it. An overwritten destination goes to `displace`. With
+    // `alwaysGit`, tracked entries are moved with `git mv` whatever the
+    // setting says, e.g. to undo a move that was staged.
+    public async movePath(oldPath: string, newPath: string, onConflict?: ConflictHandler, progress?: TreeProgress, displace?: Displacer, alwaysGit = false): Promise<string | undefined> {
+        const useGit = alwaysGit || vscode.workspace.getConfiguration('dired', vscode.Uri.file(oldPath)).get<boolean>('useGit');
+        return moveEntry(oldPath, newPath, async (from, to) => {
+            if (useGit && await gitMove(from, to)) return;
+            await fs.promises.rename(from, to);
+        }, onConflict, progress, displace);
+    }
+
+    // Moves an entry about to be overwritten into the staging area, so the
+    // operation overwriting it can record it for undo.
+    public readonly displaceToStaging: Displacer = (dest) => this.history.staging.stage(dest);
+
+    // Copy options from the `dired.copy*` settings for copies into `target`.
+    public copyOptionsFor(target: string): CopyOptions {
+        const cfg = vscode.workspace.getConfiguration('dired', vscode.Uri.file(target));
+        return {
+            preserveAttributes: cfg.get<boolean>('copyPreserveAttributes', true),
+            preserveHardLinks: cfg.get<boolean>('copyPreserveHardLinks', false),
+            rewriteSymlinks: cfg.get<boolean>('copyRewriteSymlinks', false)
+        };
+    }
+
+    // Move every `src` to its `dest`, then let marks, expanded trees and the
+    // cursor follow the moved entries and refresh the buffers showing either
+    // side. Existing destinations go through `onConflict`; one overwritten is
+    // staged, and its `backup` returned with the move. Failures are
+    // collected as "name: reason". With `progress`, cancelling stops before
+    // the next entry; what was moved so far stays moved.
+    public async moveEntries(pairs: { src: string, dest: string }[], onConflict?: ConflictHandler, progress?: OperationProgress): Promise<{ moved: { src: string, dest: string, backup?: string }[], failed: string[], cancelled: boolean }> {
+        const moved: { src: string, dest: string, backup?: string }[] = [];
+        const failed: string[] = [];
+        let cancelled = false;
+        for (const { src, dest } of pairs) {
+            if (path.resolve(src) === path.resolve(dest)) continue;
+            let succeeded = false;
+            try {
+                if (progress) {
+                    await progress.checkpoint();
+                    progress.begin(src);
+                }
+                let backup: string | undefined;
+                const target = await this.movePath(src, dest, onConflict, progress, async (p) => backup = await this.displaceToStaging(p));
+                if (target) moved.push({ src: path.resolve(src), dest: target, backup });
+                succeeded = true;
+            } catch (e) {
+                if (e instanceof OperationCancelled) {
+                    cancelled = true;
+                    break;
+                }
+                failed.push(`${path.basename(src)}: ${e instanceof Error ? e.message : e}`);
+            }
+            if (progress) progress.complete(src, succeeded);
+        }
+        if (!moved.length) return { moved, failed, cancelled };
+
+        this.followMoves(moved);
+        const dirs = new Set<string>();
+        moved.forEach((m) => { dirs.add(path.dirname(m.src)); dirs.add(path.dirname(m.dest)); });
+        const at = this.activeEditor;
+        const buf = this.activeBuffer;
+        const updated = at && buf && Array.from(dirs).some((d) => buf.shows(d)) ? this.waitForDocumentUpdate(at.document) : undefined;
+        for (const dir of dirs) {
+            await this.notifyDirChanged(dir);
+        }
+        if (at && updated) {
+            await updated;
+            this.revealPath(at, moved[0].dest);
+        }
+        try { this._onDidSelectChange.fire(); } catch (e) { /* ignore */ }
+        return { moved, failed, cancelled };
+    }
+
+    // Let marks and expanded trees of every buffer follow entries moved
+    // from `src` to `dest`.
+    public followMoves(moved: { src: string, dest: string }[]) {
+        for (const buf of this._bufferStates.values()) {
+            buf.marks = new Set(Array.from(buf.marks).map((m) => movedPath(m, moved)));
+            buf.expandedDirs = new Set(Array.from(buf.expandedDirs).map((d) => movedPath(d, moved)));
+            // an inserted section whose directory moved away is dropped
+            buf.insertedSubdirs = buf.insertedSubdirs.filter((d) => movedPath(d, moved) === d);
+        }
     }
 
     // createDirectory - forwards to fs
@@ -301,7 +1080,7 @@ export default class DiredProvider implements vscode.TextDocumentContentProvider
     }
 
     async createDir(dirname: string) {
-        const cwd = this.dirname;
+        const cwd = this.currentDir;
         if (!cwd) return;
         const p = path.join(cwd, dirname);
         const createdUri = vscode.Uri.file(p);
@@ -312,25 +1091,13 @@ export default class DiredProvider implements vscode.TextDocumentContentProvider
             // Fallback to fs if workspace API fails for some reason
             await fs.promises.mkdir(p, { recursive: true });
         }
-        // Rebuild buffer for cwd and notify change for that specific URI
-        await this.createBuffer(cwd as string);
-        const uri = this.createPathUriForDir(cwd as string);
-        this._onDidChange.fire(uri);
-        // Also emit a file-change event so consumers and any watchers update immediately
-        this._onDidChangeFile.fire([{ type: vscode.FileChangeType.Changed, uri }]);
-        // Also notify the active Dired URI (handles fixed_window mode where the editor uses FIXED_URI)
-        try {
-            const activeUri = this.uri;
-            if (activeUri && activeUri.toString() !== uri.toString()) {
-                this._onDidChange.fire(activeUri);
-                this._onDidChangeFile.fire([{ type: vscode.FileChangeType.Changed, uri: activeUri }]);
-            }
-        } catch (e) { /* ignore */ }
+        // Re-render every buffer listing cwd
+        await this.notifyDirChanged(cwd);
     }
 
     async createFile(filename: string) {
-        // Resolve filename against current dired directory if relative
-        const cwd = this.dirname;
+        // Resolve filename against the section under the cursor if relative
+        const cwd = this.currentDir;
         let target = filename;
         if (!path.isAbsolute(target)) {
             if (!cwd) {
@@ -354,31 +1121,27 @@ export default class DiredProvider implements vscode.TextDocumentContentProvider
             return;
         }
 
-        const listDir = cwd || path.dirname(target);
-        await this.createBuffer(listDir);
-        const uri = this.createPathUriForDir(listDir);
-        this._onDidChange.fire(uri);
-        this._onDidChangeFile.fire([{ type: vscode.FileChangeType.Changed, uri }]);
-        // Also notify the active Dired URI to cover fixed_window mode
-        try {
-            const activeUri = this.uri;
-            if (activeUri && activeUri.toString() !== uri.toString()) {
-                this._onDidChange.fire(activeUri);
-                this._onDidChangeFile.fire([{ type: vscode.FileChangeType.Changed, uri: activeUri }]);
-            }
-        } catch (e) { /* ignore */ }
+        await this.notifyDirChanged(path.dirname(target));
     }
 
-    renameSelected(newName: string) {
+    // Rename the entry at point. `newName` is resolved against the entry's
+    // directory, so it may also move the entry elsewhere.
+    async renameSelected(newName: string) {
         const f = this.getFile();
-        if (!f) {
+        if (!f || !newName || f.fileName === '.' || f.fileName === '..') {
             return;
         }
-        if (this.dirname) {
-            const n = path.join(this.dirname, newName);
-            this.reload();
-            vscode.window.setStatusBarMessage(`${f.fileName} is renamed to ${n}`, 3000);
+        const src = path.resolve(f.path);
+        const dest = path.resolve(path.dirname(src), newName);
+        const resolver = new ConflictResolver(conflictPolicyFor(dest));
+        const { moved, failed } = await this.moveEntries([{ src, dest }], resolver.handler);
+        await this.history.record('rename', `Rename ${f.fileName}`, moveSteps(moved));
+        if (failed.length) {
+            vscode.window.setStatusBarMessage(`Failed to rename ${failed[0]}`, 5000);
+        } else if (moved.length) {
+            vscode.window.setStatusBarMessage(`${f.fileName} is renamed to ${moved[0].dest}`, 3000);
         }
+        reportConflicts('Rename', resolver);
     }
 
     copySelected(newName: string) {
@@ -386,45 +1149,39 @@ export default class DiredProvider implements vscode.TextDocumentContentProvider
         if (!f) {
             return;
         }
-        if (!this.dirname) return;
+        const cwd = f.dirname;
+        if (!cwd) return;
         if (!newName) return;
-        const src = path.join(this.dirname, f.fileName);
+        const src = path.join(cwd, f.fileName);
         let dest = newName;
         if (!path.isAbsolute(dest)) {
-            dest = path.join(this.dirname, dest);
+            dest = path.join(cwd, dest);
         }
 
-        // Use module-scoped helper to avoid recreating the function on each call
-        const copyRecursive = copyRecursiveHelper;
-
-        const cwd = this.dirname;
-        (async () => {
+        const resolver = new ConflictResolver(conflictPolicyFor(dest));
+        // the job refreshes the buffers listing the destination when it ends
+        this.jobs.enqueue(`Copy ${f.fileName}`, [path.dirname(dest)], async (job) => {
             try {
-            await copyRecursive(src, dest);
-            // Refresh the specific directory buffer we modified
-            await this.createBuffer(cwd as string);
-            const uri = this.createPathUriForDir(cwd as string);
-                this._onDidChange.fire(uri);
-                this._onDidChangeFile.fire([{ type: vscode.FileChangeType.Changed, uri }]);
-                try {
-                    const activeUri = this.uri;
-                    if (activeUri && activeUri.toString() !== uri.toString()) {
-                        this._onDidChange.fire(activeUri);
-                        this._onDidChangeFile.fire([{ type: vscode.FileChangeType.Changed, uri: activeUri }]);
-                    }
-                } catch (e) { /* ignore */ }
-                vscode.window.setStatusBarMessage(`${src} copied to ${dest}`, 3000);
+                await fs.promises.mkdir(path.dirname(dest), { recursive: true });
+                const { cancelled } = await withOperationProgress(`Copy ${f.fileName}`, [src], async (progress) => {
+                    progress.begin(src);
+                    await copyTree(src, dest, resolver.handler, progress, this.copyOptionsFor(dest), this.displaceToStaging);
+                    progress.complete(src);
+                }, job);
+                if (!cancelled) vscode.window.setStatusBarMessage(`${src} copied to ${dest}`, 3000);
+                reportConflicts('Copy', resolver);
             } catch (err) {
                 vscode.window.setStatusBarMessage(`Failed to copy ${src} -> ${dest}: ${err}`, 5000);
+                throw err;
             }
-        })();
+        });
     }
     async deleteSelected() {
         const f = this.getFile();
         if (!f) {
             return;
         }
-        const cwd = this.dirname;
+        const cwd = f.dirname;
         if (!cwd) {
             return;
         }
@@ -440,19 +1197,8 @@ export default class DiredProvider implements vscode.TextDocumentContentProvider
             } else {
                 try { await fs.promises.unlink(target); } catch {}
             }
-            // Refresh the specific directory buffer we modified
-            await this.createBuffer(cwd as string);
-            const uri = this.createPathUriForDir(cwd as string);
-            this._onDidChange.fire(uri);
-            this._onDidChangeFile.fire([{ type: vscode.FileChangeType.Changed, uri }]);
-            // Also notify the active Dired URI to cover fixed_window mode
-            try {
-                const activeUri = this.uri;
-                if (activeUri && activeUri.toString() !== uri.toString()) {
-                    this._onDidChange.fire(activeUri);
-                    this._onDidChangeFile.fire([{ type: vscode.FileChangeType.Changed, uri: activeUri }]);
-                }
-            } catch (e) { /* ignore */ }
+            // Refresh the buffers listing the directory we modified
+            await this.notifyDirChanged(cwd);
             vscode.window.setStatusBarMessage(`${target} was deleted`, 3000);
         } catch (err) {
             vscode.window.setStatusBarMessage(`Failed to delete ${target}: ${err}`, 5000);
@@ -476,7 +1222,9 @@ export default class DiredProvider implements vscode.TextDocumentContentProvider
         this.openDir(p);
     }
 
-    openDir(dirPath: string) {
+    // Open `dirPath` in Dired. When `focusName` is given the cursor is placed
+    // on that entry instead of the remembered position.
+    openDir(dirPath: string, focusName?: string) {
         // Build URI for the directory. Always use a per-directory label URI so the tab title reflects
         // the directory path, but if `fixed_window` is enabled, close other dired editors so we still
         // have a single Dired tab.
@@ -486,34 +1234,32 @@ export default class DiredProvider implements vscode.TextDocumentContentProvider
         // Save current cursor position for the currently open directory so it
         // can be restored when the user returns to it.
         try {
-            const prevDir = this.dirname;
-            const at = vscode.window.activeTextEditor;
-            if (prevDir && at && at.document && at.document.uri && at.document.uri.scheme === DiredProvider.scheme) {
+            const at = this.activeEditor;
+            const prev = this.activeBuffer;
+            if (prev && prev.dir && at) {
                 const cursor = at.selection.active;
                 // Only store data-line positions (line >= 1) to avoid header positions
                 if (typeof cursor.line === 'number' && cursor.line >= 1) {
-                    this._lastCursorPos.set(path.resolve(prevDir), { line: cursor.line, col: cursor.character });
+                    prev.cursors.set(path.resolve(prev.dir), { line: cursor.line, col: cursor.character });
                 }
-            }
-            // If the user is switching to a different directory, clear the
-            // in-memory selection set so selections do not persist across
-            // directories. This prevents selections from being "cached"
-            // when navigating folders.
-            try {
-                if (prevDir && path.resolve(prevDir) !== path.resolve(dirPath)) {
-                    this._selectedPaths.clear();
-                    try { this._dirCache.delete(prevDir); } catch (e) { }
+                if (path.resolve(prev.dir) !== path.resolve(dirPath)) {
+                    try { this._dirCache.delete(prev.dir); } catch (e) { }
                     try { this._dirCache.delete(dirPath); } catch (e) { }
                 }
-            } catch (e) { /* ignore path/resolve errors */ }
+            }
         } catch (e) { /* ignore saving errors */ }
 
         const uri = (this._fixed_window && !this._show_path_in_tab) ? FIXED_URI : this.createPathUriForDir(dirPath);
         if (!uri) return;
+        // A buffer that now lists another directory (the fixed window) drops
+        // the marks, sections and filter of the old listing and must be re-read.
+        const buf = this.bufferFor(uri);
+        const changed = buf.showDirectory(dirPath);
+        const ready: Thenable<void> = changed && buf.lines.length ? this.refreshBuffer(buf) : Promise.resolve();
 
-        // Open the dired document. readFile will call createBuffer when the document is read,
+        // Open the dired document. readFile renders the buffer when the document is read,
         // so avoid pre-populating the buffer here to prevent duplicate heavy allocations.
-        vscode.workspace.openTextDocument(uri)
+        ready.then(() => vscode.workspace.openTextDocument(uri))
             .then(async (doc) => {
                 try { await vscode.languages.setTextDocumentLanguage(doc, 'dired'); } catch (e) { /* ignore */ }
                 return vscode.window.showTextDocument(doc, this.getTextDocumentShowOptions(this._fixed_window));
@@ -524,9 +1270,16 @@ export default class DiredProvider implements vscode.TextDocumentContentProvider
                 try {
                     // If we have a stored cursor position for this directory, prefer it.
                     const stored = (() => {
-                        try { return this._lastCursorPos.get(path.resolve(dirPath)); } catch (e) { return undefined; }
+                        try { return buf.cursors.get(path.resolve(dirPath)); } catch (e) { return undefined; }
                     })();
-                    if (stored && typeof stored.line === 'number' && stored.line >= 1 && stored.line < editor.document.lineCount) {
+                    const focusLine = focusName ? this.findEntryLine(editor.document, focusName) : -1;
+                    if (focusLine >= 1) {
+                        const item = FileItem.parseLine(dirPath, editor.document.lineAt(focusLine).text);
+                        const col = (typeof item.startColumn === 'number') ? item.startColumn : 0;
+                        const pos = new vscode.Position(focusLine, col);
+                        editor.selection = new vscode.Selection(pos, pos);
+                        editor.revealRange(new vscode.Range(pos, pos), vscode.TextEditorRevealType.InCenter);
+                    } else if (stored && typeof stored.line === 'number' && stored.line >= 1 && stored.line < editor.document.lineCount) {
                         const line = Math.min(stored.line, editor.document.lineCount - 1);
                         const col = Math.max(0, stored.col || 0);
                         const pos = new vscode.Position(line, Math.min(col, editor.document.lineAt(line).text.length));
@@ -537,25 +1290,16 @@ export default class DiredProvider implements vscode.TextDocumentContentProvider
                         const text = editor.document.lineAt(targetLine).text;
                         let startCol = 52; // fallback
                         try {
-                            const item = FileItem.parseLine(this.dirname || '.', text);
+                            const item = FileItem.parseLine(dirPath, text);
                             if (item && item.fileName) {
-                                // Prefer the parsed start column if available
+                                // Prefer the parsed start column if available; it is exact
+                                // for every configured column layout.
                                 if (typeof item.startColumn === 'number') {
                                     startCol = item.startColumn;
                                 } else {
                                     const idx = text.lastIndexOf(item.fileName);
                                     if (idx >= 0) startCol = idx;
                                 }
-                                // Heuristic: prefer the occurrence of filename that happens after the HH:MM token
-                                try {
-                                    const timeMatch = text.match(/\d{2}:\d{2}/);
-                                    if (timeMatch && typeof timeMatch.index === 'number') {
-                                        // Find the first non-space position after the time token
-                                        let pos = timeMatch.index + timeMatch[0].length;
-                                        while (pos < text.length && text.charAt(pos) === ' ') pos++;
-                                        if (pos < text.length) startCol = pos;
-                                    }
-                                } catch (e) { /* ignore */ }
                             }
                         } catch (e) { /* ignore */ }
                         const pos = new vscode.Position(targetLine, startCol);
@@ -571,22 +1315,45 @@ export default class DiredProvider implements vscode.TextDocumentContentProvider
 
                 // Setup a FileSystemWatcher for this open directory so external changes
                 // (create/delete/modify) cause the listing to refresh automatically.
-                try { this.setupWatcher(dirPath); } catch (e) { /* ignore */ }
+                try { this.setupWatcher(buf); } catch (e) { /* ignore */ }
             }).then(undefined, () => { /* ignore open errors */ });
     }
 
-    private setupWatcher(dir: string) {
+    // Put the cursor on the entry for `absPath` if the editor lists it.
+    private revealPath(editor: vscode.TextEditor, absPath: string) {
+        for (const { line, item } of DiredProvider.entries(editor.document)) {
+            if (path.resolve(item.path) !== absPath) continue;
+            this.revealLine(editor, line, typeof item.startColumn === 'number' ? item.startColumn : 0);
+            return;
+        }
+    }
+
+    // Line index of the entry named `name` in the main section of a Dired
+    // document, or -1.
+    private findEntryLine(doc: vscode.TextDocument, name: string): number {
+        const end = DiredProvider.headerLines(doc).find((l) => l > 0);
+        for (const { line, item } of DiredProvider.entries(doc, 1, end)) {
+            if (item.fileName === name) return line;
+        }
+        return -1;
+    }
+
+    // Watch the directory of `buf`; each buffer has its own watcher, replaced
+    // when the buffer moves to another directory and disposed on close.
+    private setupWatcher(buf: DiredBuffer) {
+        const dir = buf.dir;
         // Dispose previous watcher if any
         try {
-            if (this._watcher) {
-                this._watcher.dispose();
-                this._watcher = null;
+            if (buf.watcher) {
+                buf.watcher.dispose();
+                buf.watcher = undefined;
             }
         } catch (e) { /* ignore */ }
 
         try {
             const pattern = new vscode.RelativePattern(dir, '**');
-            this._watcher = vscode.workspace.createFileSystemWatcher(pattern);
+            const watcher = vscode.workspace.createFileSystemWatcher(pattern);
+            buf.watcher = watcher;
             // Debounce rapid events so bursts coalesce into a single refresh
             const schedule = () => {
                 const prev = this._watchDebounceTimers.get(dir);
@@ -597,12 +1364,12 @@ export default class DiredProvider implements vscode.TextDocumentContentProvider
                 }, 200);
                 this._watchDebounceTimers.set(dir, t);
             };
-            this._watcher.onDidCreate(schedule);
-            this._watcher.onDidChange(schedule);
-            this._watcher.onDidDelete(schedule);
+            watcher.onDidCreate(schedule);
+            watcher.onDidChange(schedule);
+            watcher.onDidDelete(schedule);
         } catch (e) {
             // ignore watcher failures (some environments may restrict watchers)
-            try { if (this._watcher) { this._watcher.dispose(); this._watcher = null; } } catch (ee) { }
+            try { if (buf.watcher) { buf.watcher.dispose(); buf.watcher = undefined; } } catch (ee) { }
         }
     }
 
@@ -620,10 +1387,16 @@ export default class DiredProvider implements vscode.TextDocumentContentProvider
     }
 
     provideTextDocumentContent(uri: vscode.Uri): string | Thenable<string> {
-        return this.render();
+        return this.renderBuffer(this.bufferFor(uri)).then((lines) => lines.join('\n'));
     }
 
     private get uri(): vscode.Uri {
+        // The active Dired document knows its own URI; this keeps virtual
+        // listings such as find-dired buffers refreshing themselves.
+        const at = this.activeEditor;
+        if (at) {
+            return at.document.uri;
+        }
         // For fixed window, return FIXED_URI unless the user requested the path be shown in the tab.
         if (this._fixed_window && !this._show_path_in_tab) {
             return FIXED_URI;
@@ -641,35 +1414,257 @@ export default class DiredProvider implements vscode.TextDocumentContentProvider
         const f = this.getFile();
         if (!f) {
             // Cursor on header or no file selected -> return current directory path
-            const d = this.dirname || '.';
+            const d = this.currentDir || '.';
             return path.resolve(d);
         }
-        // If the user selected '.' or '..', return the parent/dir instead of '.' literal
+        // If the user selected '.' or '..', return the section dir instead of '.' literal
         if (f.fileName === '.' || f.fileName === '..') {
-            return path.resolve(this.dirname || '.');
+            return path.resolve(f.dirname || '.');
         }
         return path.resolve(f.path || '.');
     }
 
     // Expose current flags so callers can display status messages after toggles
     public get showDotFiles(): boolean {
-        return this._show_dot_files;
+        return !this._omitPresets.has(DOT_FILES_PATTERN);
     }
 
     public get showMetaFiles(): boolean {
-        return this._show_meta_files;
+        return !this._omitPresets.has(META_FILES_PATTERN);
     }
 
-    private render(): Thenable<string> {
-        return new Promise((resolve) => {
-            resolve(this._buffers.join('\n'));
-        });
+    public get omitMode(): boolean {
+        return this._omitMode;
+    }
+
+    public get showGitStatus(): boolean {
+        return this._showGitStatus;
     }
 
-    private async createBuffer(dirname: string): Promise<string[]> {
-        const buffers: string[] = [];
-        buffers.push(`${dirname}:`);
+    public setShowGitStatus(value: boolean) {
+        this._showGitStatus = value;
+        this.refreshAll().then(undefined, () => { /* ignore */ });
+    }
+
+    // Git status of a listed entry, if the status column is on and loaded.
+    public gitStatusOf(absPath: string, isDirectory: boolean): GitFileStatus | undefined {
+        if (!this._showGitStatus) return undefined;
+        return this._gitStatus.lookup(path.resolve(absPath), isDirectory);
+    }
 
+    // Render the listing a Dired buffer stands for: a find-dired result set
+    // for `dired:<root>?find=<args>`, otherwise its directory. The buffer's
+    // narrowing filter, if any, is applied on top.
+    private async renderBuffer(buf: DiredBuffer): Promise<string[]> {
+        const reuse = buf.reuseListing;
+        buf.reuseListing = false;
+        if (!buf.dir) return buf.lines;
+        let lines: string[];
+        if (buf.isTrash) {
+            lines = await this.createTrashBuffer(buf);
+        } else if (buf.isFind) {
+            if (reuse && buf.findListing) {
+                lines = buf.findListing.slice();
+            } else {
+                lines = await this.createFindBuffer(buf);
+                buf.findListing = lines.slice();
+            }
+        } else {
+            lines = await this.createBuffer(buf);
+        }
+        if (this._showGitStatus) {
+            // load before the document updates so decorations find the status
+            try { await this._gitStatus.statusFor(buf.dir); } catch (e) { /* not a repository */ }
+        }
+        const filter = buf.filter;
+        if (filter) {
+            try {
+                const accept = compileFilter(filter);
+                lines = DiredProvider.narrowLines(lines, (item) => accept(item.fileName));
+                lines[0] = `${lines[0]} ${describeFilter(filter)}`;
+            } catch (e) { /* invalid pattern: show everything */ }
+        }
+        buf.lines = lines;
+        return lines;
+    }
+
+    // Virtual listing of the entries under `root` matching the find
+    // arguments. Entries are named by their path relative to `root`.
+    private async createFindBuffer(buf: DiredBuffer): Promise<string[]> {
+        const root = buf.dir;
+        const args = buf.findArgs || '';
+        const sortOrder = this.getSortOrder(buf);
+        const buffers: string[] = [`${root}: [find: ${args}] ${describeSortOrder(sortOrder)}`];
+        const cfg = vscode.workspace.getConfiguration('dired');
+        const MAX_ENTRIES = cfg.get<number>('maxEntries') || 5000;
+        try {
+            const result = await findFiles(root, parseFindArgs(args), MAX_ENTRIES);
+            const found: Array<{ filename: string, isDirectory: boolean, size: number, mtimeMs: number, item: FileItem }> = [];
+            for (const rel of result.paths) {
+                const p = path.join(root, rel);
+                try {
+                    const stat = await fs.promises.lstat(p);
+                    let linkTarget: string | undefined = undefined;
+                    if (stat.isSymbolicLink()) {
+                        try { linkTarget = await fs.promises.readlink(p); } catch (e) { linkTarget = '?'; }
+                    }
+                    const item = FileItem.create(root, rel, stat, linkTarget);
+                    found.push({ filename: rel, isDirectory: stat.isDirectory(), size: stat.size, mtimeMs: stat.mtimeMs, item });
+                } catch (e) { /* vanished since the walk */ }
+            }
+            for (const f of sortEntries(found, sortOrder)) {
+                buffers.push(f.item.line());
+            }
+            if (result.truncated) {
+                buffers.push(`(listing truncated to ${MAX_ENTRIES} entries)`);
+            }
+            if (!found.length) {
+                vscode.window.setStatusBarMessage(`find: no matches under ${root}`, 3000);
+            }
+        } catch (err) {
+            vscode.window.setStatusBarMessage(`find: ${err instanceof Error ? err.message : err}`, 5000);
+        }
+        return buffers;
+    }
+
+    // Virtual listing of the trash. Entries are named by their original path
+    // and show their deletion date; a path trashed more than once is followed
+    // by the entry's name in the trash for the older copies.
+    private async createTrashBuffer(buf: DiredBuffer): Promise<string[]> {
+        const sortOrder = this.getSortOrder(buf);
+        const dirs = await trashDirectories();
+        const buffers: string[] = [`/: [trash: ${dirs.map((d) => d.dir).join(', ') || 'none found'}] ${describeSortOrder(sortOrder)}`];
+        buf.trashEntries.clear();
+        const found: Array<{ filename: string, isDirectory: boolean, size: number, mtimeMs: number, item: FileItem }> = [];
+        const entries = (await listTrash(dirs)).sort((a, b) => (b.deletedAt || 0) - (a.deletedAt || 0));
+        for (const entry of entries) {
+            const p = trashedPath(entry);
+            try {
+                const stat = await fs.promises.lstat(p);
+                let linkTarget: string | undefined = undefined;
+                if (stat.isSymbolicLink()) {
+                    try { linkTarget = await fs.promises.readlink(p); } catch (e) { linkTarget = '?'; }
+                }
+                let name = entry.originalPath;
+                if (buf.trashEntries.has(path.resolve(name))) name = `${name} [${entry.name}]`;
+                // every time column shows the deletion date
+                const deleted = entry.deletedAt !== undefined ? entry.deletedAt : stat.mtimeMs;
+                const date = new Date(deleted);
+                const shown: fs.Stats = Object.create(stat, {
+                    mtimeMs: { value: deleted }, ctimeMs: { value: deleted }, atimeMs: { value: deleted }, birthtimeMs: { value: deleted },
+                    mtime: { value: date }, ctime: { value: date }, atime: { value: date }, birthtime: { value: date }
+                });
+                const item = FileItem.create('/', name, shown, linkTarget);
+                buf.trashEntries.set(path.resolve(item.path), entry);
+                found.push({ filename: name, isDirectory: stat.isDirectory(), size: stat.size, mtimeMs: deleted, item });
+            } catch (e) { /* vanished since the listing */ }
+        }
+        for (const f of sortEntries(found, sortOrder)) {
+            buffers.push(f.item.line());
+        }
+        if (!found.length) vscode.window.setStatusBarMessage('The trash is empty', 3000);
+        return buffers;
+    }
+
+    public static trashUri(): vscode.Uri {
+        return vscode.Uri.file('/').with({ scheme: DiredProvider.scheme, query: TRASH_QUERY });
+    }
+
+    // Find arguments carried by a find-dired URI, or undefined for plain
+    // directory URIs. The arguments are base64url-encoded in the query so
+    // they survive URI normalization unchanged.
+    public static findArgs(uri: vscode.Uri): string | undefined {
+        const prefix = `${FIND_QUERY_KEY}=`;
+        if (!uri || !uri.query || !uri.query.startsWith(prefix)) return undefined;
+        const encoded = uri.query.substring(prefix.length).replace(/-/g, '+').replace(/_/g, '/');
+        return Buffer.from(encoded, 'base64').toString('utf8');
+    }
+
+    public static findUri(root: string, args: string): vscode.Uri {
+        const encoded = Buffer.from(args, 'utf8').toString('base64').replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+        return vscode.Uri.file(root).with({ scheme: DiredProvider.scheme, query: `${FIND_QUERY_KEY}=${encoded}` });
+    }
+
+    // Render the main directory followed by every subdirectory inserted into
+    // it, each as its own header-plus-entries section separated by a blank line.
+    private async createBuffer(buf: DiredBuffer): Promise<string[]> {
+        const dirname = buf.dir;
+        const ctx: RenderContext = {
+            sortOrder: this.getSortOrder(buf),
+            expanded: buf.expandedDirs,
+            omitted: 0
+        };
+        const buffers = await this.listDirectory(dirname, ctx);
+        if (buf.insertedSubdirs.length) {
+            // Forget sections whose directory has disappeared
+            const alive: string[] = [];
+            for (const sub of buf.insertedSubdirs) {
+                try {
+                    const st = await fs.promises.stat(sub);
+                    if (!st.isDirectory()) continue;
+                } catch (e) {
+                    continue;
+                }
+                alive.push(sub);
+                buffers.push('');
+                buffers.push(...(await this.listDirectory(sub, ctx)));
+            }
+            buf.insertedSubdirs = alive;
+        }
+        // Indicators describing the buffer state go on the main header only
+        buffers[0] = `${dirname}: ${describeSortOrder(ctx.sortOrder)}`;
+        if (ctx.omitted > 0) buffers[0] += ` [omitted: ${ctx.omitted}]`;
+        return buffers;
+    }
+
+    // Header line plus one line per entry of `dirname`. Directories in
+    // `ctx.expanded` have their children rendered, indented, right below them.
+    private async listDirectory(dirname: string, ctx: RenderContext): Promise<string[]> {
+        const buffers: string[] = [`${dirname}:`];
+        const listing = await this.readEntries(dirname);
+        if (!listing) {
+            return buffers;
+        }
+        const lines = await this.renderEntries(dirname, listing.entries, ctx, 0);
+        const result = buffers.concat(lines);
+        if (listing.truncated) {
+            const cfg = vscode.workspace.getConfiguration('dired');
+            result.push(`(listing truncated to ${cfg.get<number>('maxEntries') || 5000} entries)`);
+        }
+        return result;
+    }
+
+    private async renderEntries(dirname: string, entries: LightEntry[], ctx: RenderContext, depth: number): Promise<string[]> {
+        const lines: string[] = [];
+        const expanded = ctx.expanded;
+        const omit = await this.omitPredicate(dirname);
+        for (const e of sortEntries(entries, ctx.sortOrder)) {
+            if (omit && omit(e.filename, e.isDirectory)) {
+                ctx.omitted++;
+                continue;
+            }
+            // Marks are per buffer and drawn as decorations, so the mark column stays blank
+            const f = new FileItem(dirname, e.filename, e.isDirectory, e.isFile, e.username, e.groupname, e.size, e.month, e.day, e.hour, e.min, e.modeStr, false, undefined, e.timeMs, e.linkTarget);
+            f.depth = depth;
+            lines.push(f.line());
+            if (!e.isDirectory || e.filename === '.' || e.filename === '..') continue;
+            const child = path.join(dirname, e.filename);
+            if (!expanded.has(path.resolve(child))) continue;
+            const listing = await this.readEntries(child);
+            if (!listing) {
+                // The directory vanished or became unreadable; stop expanding it
+                expanded.delete(path.resolve(child));
+                continue;
+            }
+            const children = listing.entries.filter((c) => c.filename !== '.' && c.filename !== '..');
+            lines.push(...(await this.renderEntries(child, children, ctx, depth + 1)));
+        }
+        return lines;
+    }
+
+    // Lightweight entries of `dirname`, served from `_dirCache` while the
+    // directory mtime is unchanged. Returns undefined if it cannot be listed.
+    private async readEntries(dirname: string): Promise<{ entries: LightEntry[], truncated: boolean } | undefined> {
         // Configurable safety cap for huge directories
         const cfg = vscode.workspace.getConfiguration('dired');
         const MAX_ENTRIES = cfg.get<number>('maxEntries') || 5000;
@@ -677,12 +1672,10 @@ export default class DiredProvider implements vscode.TextDocumentContentProvider
         try {
             const st = await fs.promises.stat(dirname);
             if (!st.isDirectory()) {
-                this._buffers = buffers;
-                return this._buffers;
+                return undefined;
             }
         } catch (e) {
-            this._buffers = buffers;
-            return this._buffers;
+            return undefined;
         }
 
         try {
@@ -696,42 +1689,21 @@ export default class DiredProvider implements vscode.TextDocumentContentProvider
             if (cachedEntry && Array.isArray(cachedEntry.entries) && cachedEntry.entries.length > 0) {
                 try {
                     // Check directory mtime to ensure cache freshness
-                    try {
-                        const dst = await fs.promises.stat(dirname);
-                        const mtime = (dst && typeof (dst.mtimeMs) === 'number') ? dst.mtimeMs : dst.mtime.getTime();
-                        if (cachedEntry.dirMtime === mtime) {
-                            const lines = cachedEntry.entries.map((e) => {
-                                const f = new FileItem(dirname, e.filename, e.isDirectory, e.isFile, e.username, e.groupname, e.size, e.month, e.day, e.hour, e.min, e.modeStr, e.selected);
-                                return f.line();
-                            });
-                            this._buffers = buffers.concat(lines);
-                            if (cachedEntry.entries.length > MAX_ENTRIES) {
-                                this._buffers.push(`(listing truncated to ${MAX_ENTRIES} entries)`);
-                            }
-                            return this._buffers;
-                        }
-                        // mtime differs -> fallthrough to rebuild cache
-                    } catch (e) {
-                        // if stat failed, ignore and rebuild
+                    const dst = await fs.promises.stat(dirname);
+                    const mtime = (dst && typeof (dst.mtimeMs) === 'number') ? dst.mtimeMs : dst.mtime.getTime();
+                    if (cachedEntry.dirMtime === mtime) {
+                        return { entries: cachedEntry.entries, truncated: !!cachedEntry.truncated };
                     }
+                    // mtime differs -> fallthrough to rebuild cache
                 } catch (e) {
-                    // If cache regeneration fails for any reason, fall through to rebuild.
+                    // if stat failed, ignore and rebuild
                 }
             }
             // include '.' and '..' similar to previous behavior
             let names = ['.', '..', ...entries];
 
-            // Honor the `_show_dot_files` flag: when false, filter out entries
-            // starting with '.' except for '.' and '..'. This mirrors the
-            // behavior implemented in `readDir` and ensures toggling dotfiles
-            // updates the displayed listing.
-            if (!this._show_dot_files) {
-                names = names.filter((n) => n === '.' || n === '..' || n.charAt(0) !== '.');
-            }
-            // Honor `_show_meta_files`: when false, filter out files that end with '.meta'
-            if (!this._show_meta_files) {
-                names = names.filter((n) => n === '.' || n === '..' || !n.toLowerCase().endsWith('.meta'));
-            }
+            // Entries are cached unfiltered; omit mode and the dotfile/.meta
+            // toggles are applied when rendering (see `renderEntries`).
 
             let truncated = false;
             if (names.length > MAX_ENTRIES) {
@@ -741,17 +1713,18 @@ export default class DiredProvider implements vscode.TextDocumentContentProvider
 
             // Build a lightweight cached representation to avoid holding onto
             // FileItem instances or long formatted strings between operations.
-            const lightEntries: Array<any> = [];
+            const lightEntries: LightEntry[] = [];
             for (const filename of names) {
                 const p = path.join(dirname, filename);
                 try {
-                    const stat = await fs.promises.stat(p);
-                    const fi = FileItem.create(dirname, filename, stat);
+                    // lstat so symbolic links are listed as links rather than their targets
+                    const stat = await fs.promises.lstat(p);
+                    let linkTarget: string | undefined = undefined;
+                    if (stat.isSymbolicLink()) {
+                        try { linkTarget = await fs.promises.readlink(p); } catch (e) { linkTarget = '?'; }
+                    }
+                    const fi = FileItem.create(dirname, filename, stat, linkTarget);
                     if (!fi) continue;
-                    // Mark selected true if the absolute path is present in
-                    // the in-memory `_selectedPaths` set.
-                    const abs = path.resolve(dirname, fi.fileName);
-                    const isSelected = this._selectedPaths.has(abs);
                     // Store minimal fields needed to re-create a FileItem on demand
                     lightEntries.push({
                         filename: fi.fileName,
@@ -765,7 +1738,9 @@ export default class DiredProvider implements vscode.TextDocumentContentProvider
                         hour: (fi as any)._hour,
                         min: (fi as any)._min,
                         modeStr: (fi as any)._modeStr,
-                        selected: !!isSelected
+                        timeMs: fi.timeMs,
+                        mtimeMs: stat.mtimeMs,
+                        linkTarget: fi.linkTarget
                     });
                 } catch (err) {
                     // skip entries we can't stat
@@ -780,7 +1755,7 @@ export default class DiredProvider implements vscode.TextDocumentContentProvider
                     const dst = await fs.promises.stat(dirname);
                     dirMtime = (dst && typeof (dst.mtimeMs) === 'number') ? dst.mtimeMs : dst.mtime.getTime();
                 } catch (e) { /* ignore stat errors for cache mtime */ }
-                this._dirCache.set(dirname, { entries: lightEntries, dirMtime });
+                this._dirCache.set(dirname, { entries: lightEntries, dirMtime, truncated });
                 const MAX_CACHE_DIRS = 10;
                 while (this._dirCache.size > MAX_CACHE_DIRS) {
                     // delete oldest entry (Map preserves insertion order)
@@ -789,20 +1764,9 @@ export default class DiredProvider implements vscode.TextDocumentContentProvider
                 }
             } catch (e) { /* ignore cache errors */ }
 
-            // Recreate formatted lines on demand from the lightweight entries.
-            const lines = lightEntries.map((e) => {
-                const f = new FileItem(dirname, e.filename, e.isDirectory, e.isFile, e.username, e.groupname, e.size, e.month, e.day, e.hour, e.min, e.modeStr, e.selected);
-                return f.line();
-            });
-
-            this._buffers = buffers.concat(lines);
-            if (truncated) {
-                this._buffers.push(`(listing truncated to ${MAX_ENTRIES} entries)`);
-            }
-            return this._buffers;
+            return { entries: lightEntries, truncated };
         } catch (err) {
-            this._buffers = buffers;
-            return this._buffers;
+            return undefined;
         }
     }
 
@@ -874,7 +1838,7 @@ export default class DiredProvider implements vscode.TextDocumentContentProvider
             }
             return result.filter((fileItem) => {
                 if (fileItem) {
-                    if (this._show_dot_files) return true;
+                    if (this.showDotFiles) return true;
                     const filename = fileItem.fileName;
                     if (filename === '..' || filename === '.') return true;
                     return filename.substring(0, 1) !== '.';
@@ -887,7 +1851,7 @@ export default class DiredProvider implements vscode.TextDocumentContentProvider
     }
 
     private getFile(): FileItem | null {
-        const at = vscode.window.activeTextEditor;
+        const at = this.activeEditor;
         if (!at) {
             return null;
         }
@@ -895,19 +1859,17 @@ export default class DiredProvider implements vscode.TextDocumentContentProvider
         if (cursor.line < 1) {
             return null;
         }
-        const lineText = at.document.lineAt(cursor.line);
-        if (this.dirname && lineText) {
-            return FileItem.parseLine(this.dirname, lineText.text);
+        try {
+            return DiredProvider.parseEntryAt(at.document, cursor.line);
+        } catch (e) {
+            return null;
         }
-        return null;
     }
 
     private selectFiles(value: boolean) {
-        if (!this.dirname) {
-            return;
-        }
-        const at = vscode.window.activeTextEditor;
-        if (!at) {
+        const buf = this.activeBuffer;
+        const at = this.activeEditor;
+        if (!buf || !buf.dir || !at) {
             return;
         }
         const doc = at.document;
@@ -921,9 +1883,11 @@ export default class DiredProvider implements vscode.TextDocumentContentProvider
 
         if (at.selection.isEmpty) {
             const cursor = at.selection.active;
-            if (cursor.line === 0) { // Select all
-                start = 1;
-                end = doc.lineCount;
+            if (DiredProvider.isHeaderLine(doc.lineAt(cursor.line).text)) {
+                // Select all entries of the section under this header
+                start = cursor.line + 1;
+                const next = DiredProvider.headerLines(doc).find((l) => l > cursor.line);
+                end = next === undefined ? doc.lineCount : next;
             } else {
                 allowSelectDot = true;
                 start = cursor.line;
@@ -934,17 +1898,13 @@ export default class DiredProvider implements vscode.TextDocumentContentProvider
             end = at.selection.end.line;
         }
 
-        for (let i = start; i < end; i++) {
-            try {
-                const f = FileItem.parseLine(this.dirname, doc.lineAt(i).text);
-                if (!f) continue;
-                if (f.fileName === '.' || f.fileName === '..') {
-                    if (!allowSelectDot) continue;
-                }
-                const abs = path.resolve(this.dirname, f.fileName);
-                if (value) this._selectedPaths.add(abs);
-                else this._selectedPaths.delete(abs);
-            } catch (e) { /* ignore parse errors */ }
+        for (const { item: f } of DiredProvider.entries(doc, start, end)) {
+            if (f.fileName === '.' || f.fileName === '..') {
+                if (!allowSelectDot) continue;
+            }
+            const abs = path.resolve(f.path);
+            if (value) buf.marks.add(abs);
+            else buf.marks.delete(abs);
         }
 
         // Notify selection change so the extension can update decorations
@@ -953,9 +1913,9 @@ export default class DiredProvider implements vscode.TextDocumentContentProvider
 
     // Toggle selection state for the currently active data-line (single row)
     public async toggleSelectCurrent() {
-        if (!this.dirname) return;
-        const at = vscode.window.activeTextEditor;
-        if (!at) return;
+        const buf = this.activeBuffer;
+        const at = this.activeEditor;
+        if (!buf || !buf.dir || !at) return;
         const doc = at.document;
         if (!doc) return;
         const cursor = at.selection.active;
@@ -970,23 +1930,17 @@ export default class DiredProvider implements vscode.TextDocumentContentProvider
                 let total = 0;
                 let selectedCount = 0;
                 const candidates: { abs: string, name: string }[] = [];
-                for (let i = startLine; i <= endLine; i++) {
-                    try {
-                        const line = doc.lineAt(i).text;
-                        if (!line || !line.trim()) continue;
-                        const f = FileItem.parseLine(this.dirname, line);
-                        if (!f) continue;
-                        if (f.fileName === '.' || f.fileName === '..') continue;
-                        const abs = path.resolve(this.dirname, f.fileName);
-                        candidates.push({ abs, name: f.fileName });
-                        total++;
-                        if (this._selectedPaths.has(abs)) selectedCount++;
-                    } catch (e) { /* ignore parse errors */ }
+                for (const { item: f } of DiredProvider.entries(doc, startLine, endLine + 1)) {
+                    if (f.fileName === '.' || f.fileName === '..') continue;
+                    const abs = path.resolve(f.path);
+                    candidates.push({ abs, name: f.fileName });
+                    total++;
+                    if (buf.marks.has(abs)) selectedCount++;
                 }
                 if (total === 0) return;
                 const newSelected = selectedCount !== total; // if not all selected -> select all
                 for (const c of candidates) {
-                    if (newSelected) this._selectedPaths.add(c.abs); else this._selectedPaths.delete(c.abs);
+                    if (newSelected) buf.marks.add(c.abs); else buf.marks.delete(c.abs);
                 }
                 try { this._onDidSelectChange.fire(); } catch (e) { }
                 try { vscode.window.setStatusBarMessage(`${newSelected ? 'Marked' : 'Unmarked'} ${candidates.length} files`, 1500); } catch (e) { }
@@ -994,14 +1948,13 @@ export default class DiredProvider implements vscode.TextDocumentContentProvider
             }
 
             // Single-line toggle
-            const lineIdx = cursor.line;
-            const f = FileItem.parseLine(this.dirname, doc.lineAt(lineIdx).text);
+            const f = DiredProvider.parseEntryAt(doc, cursor.line);
             if (!f) return;
             if (f.fileName === '.' || f.fileName === '..') return;
-            const abs = path.resolve(this.dirname, f.fileName);
-            const currentlySelected = this._selectedPaths.has(abs);
+            const abs = path.resolve(f.path);
+            const currentlySelected = buf.marks.has(abs);
             const newSelected = !currentlySelected;
-            if (newSelected) this._selectedPaths.add(abs); else this._selectedPaths.delete(abs);
+            if (newSelected) buf.marks.add(abs); else buf.marks.delete(abs);
             try { this._onDidSelectChange.fire(); } catch (e) { }
             try { if (newSelected) vscode.window.setStatusBarMessage(`Marked ${f.fileName}`, 1500); else vscode.window.setStatusBarMessage(`Unmarked ${f.fileName}`, 1000); } catch (e) { }
         } catch (e) {
@@ -1019,31 +1972,124 @@ export default class DiredProvider implements vscode.TextDocumentContentProvider
 
     // Public helper to notify that a specific directory's listing changed.
     // This is used by external callers (commands) when they perform operations
-    // that modify the filesystem but can't rely on `this.dirname` being set.
+    // that modify the filesystem. Every open buffer showing `dir` (as its main
+    // directory, an inserted or expanded subdirectory, or below a find-dired
+    // root) is re-rendered.
     public async notifyDirChanged(dir: string) {
         if (!dir) return;
-        try {
-            await this.createBuffer(dir);
-            const uri = this.createPathUriForDir(dir);
-            this._onDidChange.fire(uri);
-            this._onDidChangeFile.fire([{ type: vscode.FileChangeType.Changed, uri }]);
-            // also notify active dired uri (covers fixed_window mode)
-            try {
-                const activeUri = this.uri;
-                if (activeUri && activeUri.toString() !== uri.toString()) {
-                    this._onDidChange.fire(activeUri);
-                    this._onDidChangeFile.fire([{ type: vscode.FileChangeType.Changed, uri: activeUri }]);
-                }
-            } catch (e) { /* ignore */ }
-        } catch (e) {
-            // ignore
+        // the change may have touched tracked files
+        this._gitStatus.invalidate(dir);
+        for (const buf of Array.from(this._bufferStates.values())) {
+            // closed documents have released their lines and render on reopen
+            if (!buf.lines.length || !buf.shows(dir)) continue;
+            await this.refreshBuffer(buf);
+        }
+    }
+
+    // Mark every listed entry whose own Git status is one of `kinds`; a
+    // directory is not marked just because something below it changed.
+    // Returns the number of entries marked.
+    public async markByGitStatus(kinds: GitStatusKind[]): Promise<number> {
+        const at = this.activeEditor;
+        const buf = this.activeBuffer;
+        if (!at || !buf || !buf.dir) return 0;
+        const doc = at.document;
+        const dir = buf.dir;
+        const snapshot = await this._gitStatus.statusFor(dir);
+        if (!snapshot) {
+            vscode.window.setStatusBarMessage(`Dired: ${dir} is not in a Git repository`, 3000);
+            return 0;
+        }
+        let count = 0;
+        for (const { item } of DiredProvider.entries(doc)) {
+            if (item.fileName === '.' || item.fileName === '..') continue;
+            const abs = path.resolve(item.path);
+            const status = this._gitStatus.lookup(abs, item.isDirectory);
+            if (!status || status.fromDescendant || kinds.indexOf(status.kind) < 0) continue;
+            if (!buf.marks.has(abs)) count++;
+            buf.marks.add(abs);
+        }
+        try { this._onDidSelectChange.fire(); } catch (e) { }
+        return count;
+    }
+
+    // Mark (or with `mark` false, unmark) every listed entry `predicate`
+    // accepts; in the trash buffer the predicate sees the trashed files.
+    // Returns the number of entries whose mark changed.
+    public async markWhere(predicate: MarkPredicate, mark = true): Promise<number> {
+        const at = this.activeEditor;
+        const buf = this.activeBuffer;
+        if (!at || !buf || !buf.dir) return 0;
+        let count = 0;
+        for (const { item } of DiredProvider.entries(at.document)) {
+            if (item.fileName === '.' || item.fileName === '..') continue;
+            const abs = path.resolve(item.path);
+            if (buf.marks.has(abs) === mark) continue;
+            // a trash line is listed under its original path; judge the trashed file
+            const trashed = buf.isTrash ? buf.trashEntries.get(abs) : undefined;
+            if (buf.isTrash && !trashed) continue;
+            const actual = trashed ? trashedPath(trashed) : abs;
+            let stat: fs.Stats;
+            try { stat = await fs.promises.lstat(actual); } catch (e) { continue; }
+            if (!(await predicate({ path: actual, name: path.basename(abs), stat }))) continue;
+            if (mark) buf.marks.add(abs);
+            else buf.marks.delete(abs);
+            count++;
+        }
+        try { this._onDidSelectChange.fire(); } catch (e) { }
+        return count;
+    }
+
+    // Mark every listed entry that is unmarked and unmark the marked ones.
+    // Entries hidden by a filter keep their marks. Returns the number of
+    // entries marked afterwards.
+    public toggleMarks(): number {
+        const at = this.activeEditor;
+        const buf = this.activeBuffer;
+        if (!at || !buf || !buf.dir) return 0;
+        for (const { item } of DiredProvider.entries(at.document)) {
+            if (item.fileName === '.' || item.fileName === '..') continue;
+            const abs = path.resolve(item.path);
+            if (buf.marks.has(abs)) buf.marks.delete(abs);
+            else buf.marks.add(abs);
+        }
+        try { this._onDidSelectChange.fire(); } catch (e) { }
+        return buf.marks.size;
+    }
+
+    // Drop every mark of the active buffer. Returns how many there were.
+    public unmarkAll(): number {
+        const buf = this.activeBuffer;
+        if (!buf) return 0;
+        const count = buf.marks.size;
+        buf.marks.clear();
+        try { this._onDidSelectChange.fire(); } catch (e) { }
+        return count;
+    }
+
+    // Paths of the entries listed in a Dired buffer, in listing order.
+    public getListedPaths(uri?: vscode.Uri): string[] {
+        const buf = uri ? this.bufferFor(uri) : this.activeBuffer;
+        return buf ? DiredProvider.listedPaths(arrayLines(buf.lines)) : [];
+    }
+
+    // Paths of the entries of `doc`, in listing order, without the `.` and
+    // `..` lines (the listed directory and its parent).
+    public static listedPaths(doc: LineSource): string[] {
+        const paths: string[] = [];
+        for (const { item } of DiredProvider.entries(doc)) {
+            if (item.fileName === '.' || item.fileName === '..') continue;
+            paths.push(item.path);
         }
+        return paths;
     }
 
-    // Return an array of absolute paths that are currently marked.
-    public getMarkedPaths(): string[] {
+    // Return an array of absolute paths that are currently marked in a Dired
+    // buffer (the active one by default).
+    public getMarkedPaths(uri?: vscode.Uri): string[] {
         try {
-            return Array.from(this._selectedPaths.values());
+            const buf = uri ? this.bufferFor(uri) : this.activeBuffer;
+            return buf ? Array.from(buf.marks.values()) : [];
         } catch (e) {
             return [];
         }
@@ -0,0 +1,125 @@
+'use strict';
+
+// Sorting helpers for Dired listings (Emacs `s` equivalent).
+// Sorting operates on the lightweight cached entries kept by the provider so
+// changing the order never requires re-statting the directory.
+
+export type SortKey = 'name' | 'natural' | 'size' | 'mtime' | 'extension';
+
+export interface SortOrder {
+    key: SortKey;
+    reverse: boolean;
+    dirsFirst: boolean;
+}
+
+// Minimal shape needed to sort an entry.
+export interface SortableEntry {
+    filename: string;
+    isDirectory: boolean;
+    size: number;
+    mtimeMs: number;
+}
+
+export const SORT_KEYS: SortKey[] = ['name', 'natural', 'size', 'mtime', 'extension'];
+
+export const SORT_KEY_LABELS: { [k in SortKey]: string } = {
+    name: 'name',
+    natural: 'natural name',
+    size: 'size',
+    mtime: 'modification time',
+    extension: 'extension'
+};
+
+export const DEFAULT_SORT_ORDER: SortOrder = { key: 'name', reverse: false, dirsFirst: false };
+
+export function isSortKey(s: unknown): s is SortKey {
+    return typeof s === 'string' && (SORT_KEYS as string[]).indexOf(s) >= 0;
+}
+
+// Return the key following `key` in SORT_KEYS, wrapping around at the end.
+export function nextSortKey(key: SortKey): SortKey {
+    const idx = SORT_KEYS.indexOf(key);
+    return SORT_KEYS[(idx + 1) % SORT_KEYS.length];
+}
+
+// Compare strings so that embedded numbers are ordered numerically,
+// e.g. "file2" sorts before "file10".
+export function naturalCompare(a: string, b: string): number {
+    const re = /(\d+)|(\D+)/g;
+    const ta = a.match(re) || [];
+    const tb = b.match(re) || [];
+    const n = Math.min(ta.length, tb.length);
+    for (let i = 0; i < n; i++) {
+        const x = ta[i];
+        const y = tb[i];
+        if (x === y) continue;
+        const xd = /^\d/.test(x);
+        const yd = /^\d/.test(y);
+        if (xd && yd) {
+            const diff = parseInt(x, 10) - parseInt(y, 10);
+            if (diff !== 0) return diff;
+            // same numeric value, fewer leading zeros first
+            if (x.length !== y.length) return x.length - y.length;
+            continue;
+        }
+        const c = x.toLowerCase().localeCompare(y.toLowerCase());
+        if (c !== 0) return c;
+    }
+    if (ta.length !== tb.length) return ta.length - tb.length;
+    // Names differ only by case: fall back to a plain comparison so the order is stable
+    return a === b ? 0 : (a < b ? -1 : 1);
+}
+
+function extensionOf(filename: string): string {
+    const ext = filename.lastIndexOf('.');
+    // dotfiles such as `.gitignore` have no extension
+    if (ext <= 0) return '';
+    return filename.substring(ext + 1).toLowerCase();
+}
+
+function compareNames(a: string, b: string): number {
+    if (a === b) return 0;
+    return a < b ? -1 : 1;
+}
+
+function compareByKey(a: SortableEntry, b: SortableEntry, key: SortKey): number {
+    switch (key) {
+        case 'natural':
+            return naturalCompare(a.filename, b.filename);
+        case 'size':
+            // largest first, like `ls -S`
+            return (b.size || 0) - (a.size || 0) || compareNames(a.filename, b.filename);
+        case 'mtime':
+            // newest first, like `ls -t`
+            return (b.mtimeMs || 0) - (a.mtimeMs || 0) || compareNames(a.filename, b.filename);
+        case 'extension':
+            return compareNames(extensionOf(a.filename), extensionOf(b.filename)) || compareNames(a.filename, b.filename);
+        case 'name':
+        default:
+            return compareNames(a.filename, b.filename);
+    }
+}
+
+// Return a new array sorted according to `order`. The `.` and `..` entries
+// always stay on top regardless of the chosen order.
+export function sortEntries<T extends SortableEntry>(entries: T[], order: SortOrder): T[] {
+    const dots = entries.filter((e) => e.filename === '.' || e.filename === '..')
+        .sort((a, b) => a.filename.length - b.filename.length);
+    const rest = entries.filter((e) => e.filename !== '.' && e.filename !== '..');
+    rest.sort((a, b) => {
+        if (order.dirsFirst && a.isDirectory !== b.isDirectory) {
+            return a.isDirectory ? -1 : 1;
+        }
+        const c = compareByKey(a, b, order.key);
+        return order.reverse ? -c : c;
+    });
+    return dots.concat(rest);
+}
+
+// Short description rendered in the Dired header line, e.g. "[sort: size, reversed, dirs first]".
+export function describeSortOrder(order: SortOrder): string {
+    const parts = [SORT_KEY_LABELS[order.key]];
+    if (order.reverse) parts.push('reversed');
+    if (order.dirsFirst) parts.push('dirs first');
+    return `[sort: ${parts.join(', ')}]`;
+}
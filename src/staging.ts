@@ -0,0 +1,186 @@
+'use strict';
+
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import { isInside, moveEntry, TreeProgress } from './fileOps';
+import { scanTree } from './progress';
+import { UndoStore } from './undoHistory';
+
+// Staging area for deleted entries and undo stashes. A deleted entry is
+// renamed into a staging directory on its own filesystem, so a delete costs
+// one rename however big the entry is, and undo renames it back. Staged
+// entries are removed for good once they are older or larger than the
+// retention policy allows.
+
+// Where earlier versions kept their backup copies; still the first choice.
+export const DEFAULT_STAGING_ROOT = path.join(os.tmpdir(), 'vscode-dired-backup');
+// Name of the staging directory created on other filesystems.
+export const STAGING_DIR_NAME = '.dired-staging';
+
+const ROOTS_KEY = 'dired.stagingRoots';
+
+export interface StagedItem {
+    path: string;
+    // when it was staged, from its name (`<time>-<random>-<name>`)
+    stagedAt: number;
+    bytes: number;
+}
+
+// 0 disables a limit.
+export interface RetentionPolicy {
+    maxAgeMs: number;
+    maxBytes: number;
+}
+
+// The `dired.deleteRetentionDays` and `dired.deleteRetentionMaxSize` settings.
+export function retentionPolicy(): RetentionPolicy {
+    const cfg = vscode.workspace.getConfiguration('dired');
+    const days = cfg.get<number>('deleteRetentionDays', 7);
+    const megabytes = cfg.get<number>('deleteRetentionMaxSize', 2048);
+    return { maxAgeMs: Math.max(0, days || 0) * 86400000, maxBytes: Math.max(0, megabytes || 0) * 1024 * 1024 };
+}
+
+// The staged items to remove under `policy`: everything older than the
+// maximum age, then the oldest of the rest until they fit the maximum size.
+// The newest item and the paths in `keep` (the backups of the operation just
+// recorded) are never removed, so the last delete can always be undone.
+export function expiredItems(items: StagedItem[], policy: RetentionPolicy, now: number = Date.now(), keep: Set<string> = new Set()): StagedItem[] {
+    const sorted = items.slice().sort((a, b) => a.stagedAt - b.stagedAt);
+    const expired: StagedItem[] = [];
+    let total = sorted.reduce((sum, i) => sum + i.bytes, 0);
+    for (let i = 0; i < sorted.length; i++) {
+        const item = sorted[i];
+        if (keep.has(path.resolve(item.path))) continue;
+        const tooOld = policy.maxAgeMs > 0 && now - item.stagedAt > policy.maxAgeMs;
+        const tooBig = policy.maxBytes > 0 && total > policy.maxBytes && i < sorted.length - 1;
+        if (!tooOld && !tooBig) continue;
+        expired.push(item);
+        total -= item.bytes;
+    }
+    return expired;
+}
+
+// Device of `p`, or of its nearest existing ancestor.
+async function deviceOf(p: string): Promise<number | undefined> {
+    for (let cur = path.resolve(p); ; cur = path.dirname(cur)) {
+        try {
+            return (await fs.promises.stat(cur)).dev;
+        } catch (e) {
+            if (path.dirname(cur) === cur) return undefined;
+        }
+    }
+}
+
+export class DeleteStaging {
+    // staging roots used so far, so cleanup finds entries on every filesystem
+    private _roots: string[];
+    private _rootByDevice = new Map<number, string>();
+
+    constructor(private readonly _store?: UndoStore) {
+        this._roots = (_store && _store.get<string[]>(ROOTS_KEY)) || [];
+    }
+
+    get roots(): string[] {
+        return [DEFAULT_STAGING_ROOT].concat(this._roots.filter((r) => r !== DEFAULT_STAGING_ROOT));
+    }
+
+    // A fresh path in the staging root for `target`'s filesystem.
+    async location(target: string): Promise<string> {
+        const root = await this._rootFor(target);
+        const unique = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}-${path.basename(target)}`;
+        return path.join(root, unique);
+    }
+
+    // Move `target` into the staging area and resolve its staged path. Only
+    // when no staging directory can be made on its filesystem is it copied
+    // (reporting to `progress`) and then removed.
+    async stage(target: string, progress?: TreeProgress): Promise<string> {
+        const staged = await this.location(target);
+        await moveEntry(target, staged, undefined, undefined, progress);
+        return staged;
+    }
+
+    // Remove a staged entry for good.
+    async purge(staged: string) {
+        await fs.promises.rm(staged, { recursive: true, force: true });
+    }
+
+    // Everything staged, in every known root.
+    async list(): Promise<StagedItem[]> {
+        const items: StagedItem[] = [];
+        for (const root of this.roots) {
+            let names: string[] = [];
+            try { names = await fs.promises.readdir(root); } catch (e) { continue; }
+            for (const name of names) {
+                const p = path.join(root, name);
+                const m = /^(\d+)-/.exec(name);
+                let stagedAt = m ? Number(m[1]) : 0;
+                if (!stagedAt) {
+                    try { stagedAt = (await fs.promises.lstat(p)).mtimeMs; } catch (e) { continue; }
+                }
+                const { bytes } = await scanTree(p);
+                items.push({ path: p, stagedAt, bytes });
+            }
+        }
+        return items;
+    }
+
+    // Remove what `policy` expires (sparing the paths in `keep`), or
+    // everything without a policy. Resolves the paths removed.
+    async cleanup(policy?: RetentionPolicy, now: number = Date.now(), keep?: Set<string>): Promise<{ removed: string[], bytes: number }> {
+        const items = await this.list();
+        const expired = policy ? expiredItems(items, policy, now, keep) : items;
+        let bytes = 0;
+        const removed: string[] = [];
+        for (const item of expired) {
+            try {
+                await this.purge(item.path);
+                removed.push(item.path);
+                bytes += item.bytes;
+            } catch (e) { /* ignore */ }
+        }
+        return { removed, bytes };
+    }
+
+    // The first candidate on the same filesystem as `target`: the default
+    // root, a per-user cache directory, then a staging directory at the top
+    // of `target`'s filesystem or, where that is not writable, further down
+    // towards `target`. Falls back to the default root.
+    private async _rootFor(target: string): Promise<string> {
+        const parent = path.dirname(path.resolve(target));
+        const dev = await deviceOf(parent);
+        if (dev === undefined) return this._use(DEFAULT_STAGING_ROOT);
+        const cached = this._rootByDevice.get(dev);
+        if (cached && !isInside(cached, target)) return this._use(cached);
+        const candidates = [DEFAULT_STAGING_ROOT, path.join(os.homedir(), '.cache', 'vscode-dired-staging')];
+        const ancestors: string[] = [];
+        for (let cur = parent; ; cur = path.dirname(cur)) {
+            if ((await deviceOf(cur)) !== dev) break;
+            ancestors.unshift(cur);
+            if (path.dirname(cur) === cur) break;
+        }
+        candidates.push(...ancestors.map((a) => path.join(a, STAGING_DIR_NAME)));
+        for (const candidate of candidates) {
+            if (isInside(candidate, target) || (await deviceOf(candidate)) !== dev) continue;
+            try {
+                await fs.promises.mkdir(candidate, { recursive: true });
+                if ((await deviceOf(candidate)) !== dev) continue;
+                this._rootByDevice.set(dev, candidate);
+                return this._use(candidate);
+            } catch (e) { /* not writable, try the next one */ }
+        }
+        return this._use(DEFAULT_STAGING_ROOT);
+    }
+
+    private async _use(root: string): Promise<string> {
+        await fs.promises.mkdir(root, { recursive: true });
+        if (root !== DEFAULT_STAGING_ROOT && this._roots.indexOf(root) < 0) {
+            this._roots.push(root);
+            try { if (this._store) await this._store.update(ROOTS_KEY, this._roots); } catch (e) { /* ignore */ }
+        }
+        return root;
+    }
+}
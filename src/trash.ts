@@ -0,0 +1,177 @@
+'use strict';
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import { ConflictHandler, Displacer, moveEntry } from './fileOps';
+
+// The freedesktop.org trash (Linux): the home trash under
+// `$XDG_DATA_HOME/Trash` and the per-volume `.Trash/$uid` and `.Trash-$uid`
+// directories. Every trashed entry lives in `<trash>/files/<name>` and is
+// described by `<trash>/info/<name>.trashinfo`:
+//   [Trash Info]
+//   Path=/home/me/notes%20old.txt
+//   DeletionDate=2024-05-01T13:45:10
+
+// URI query of the virtual Dired buffer listing the trash (`dired:/?trash`).
+export const TRASH_QUERY = 'trash';
+
+export interface TrashDirectory {
+    dir: string;
+    // relative `Path=` values are relative to this directory (the volume's mount point)
+    topDir: string;
+}
+
+export interface TrashEntry {
+    trashDir: string;
+    // name under `files/` (and of the `.trashinfo` file, without extension)
+    name: string;
+    originalPath: string;
+    // epoch ms, undefined when the info file has no valid date
+    deletedAt: number | undefined;
+}
+
+// Where the trashed entry itself is stored.
+export function trashedPath(entry: TrashEntry): string {
+    return path.join(entry.trashDir, 'files', entry.name);
+}
+
+function infoPath(entry: TrashEntry): string {
+    return path.join(entry.trashDir, 'info', `${entry.name}.trashinfo`);
+}
+
+export function homeTrashDir(env: NodeJS.ProcessEnv = process.env): string {
+    const dataHome = env.XDG_DATA_HOME && path.isAbsolute(env.XDG_DATA_HOME) ? env.XDG_DATA_HOME : path.join(os.homedir(), '.local', 'share');
+    return path.join(dataHome, 'Trash');
+}
+
+// Original path and deletion date of a `.trashinfo` file; undefined when it
+// has no `Path` key. Relative paths are resolved against `topDir`.
+export function parseTrashInfo(text: string, topDir: string): { originalPath: string, deletedAt: number | undefined } | undefined {
+    let inGroup = false;
+    let rawPath: string | undefined;
+    let rawDate: string | undefined;
+    for (const line of text.split(/\r?\n/)) {
+        const trimmed = line.trim();
+        if (trimmed.startsWith('[')) {
+            inGroup = trimmed === '[Trash Info]';
+            continue;
+        }
+        if (!inGroup) continue;
+        const eq = trimmed.indexOf('=');
+        if (eq < 0) continue;
+        const key = trimmed.substring(0, eq).trim();
+        const value = trimmed.substring(eq + 1).trim();
+        if (key === 'Path' && rawPath === undefined) rawPath = value;
+        if (key === 'DeletionDate' && rawDate === undefined) rawDate = value;
+    }
+    if (!rawPath) return undefined;
+    let decoded: string;
+    try { decoded = decodeURIComponent(rawPath); } catch (e) { decoded = rawPath; }
+    const originalPath = path.isAbsolute(decoded) ? decoded : path.join(topDir, decoded);
+    // local time, as written by the trashing application
+    const m = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2}):(\d{2})/.exec(rawDate || '');
+    const deletedAt = m ? new Date(+m[1], +m[2] - 1, +m[3], +m[4], +m[5], +m[6]).getTime() : undefined;
+    return { originalPath, deletedAt };
+}
+
+// Mount points listed in `/proc/mounts`, with the octal escapes of spaces
+// and other special characters decoded.
+export function parseMounts(text: string): string[] {
+    const points: string[] = [];
+    for (const line of text.split('\n')) {
+        const fields = line.split(' ');
+        if (fields.length < 2 || !fields[1]) continue;
+        points.push(fields[1].replace(/\\([0-7]{3})/g, (_m, oct: string) => String.fromCharCode(parseInt(oct, 8))));
+    }
+    return points;
+}
+
+async function isDirectory(p: string): Promise<boolean> {
+    try {
+        return (await fs.promises.stat(p)).isDirectory();
+    } catch (e) {
+        return false;
+    }
+}
+
+// The home trash and every per-volume trash of the current user that exists.
+// A shared `.Trash` directory only counts when it has the sticky bit and is
+// not a symbolic link, as the specification requires.
+export async function trashDirectories(): Promise<TrashDirectory[]> {
+    const result: TrashDirectory[] = [];
+    const seen = new Set<string>();
+    const add = async (dir: string, topDir: string) => {
+        if (!(await isDirectory(path.join(dir, 'info')))) return;
+        let real = dir;
+        try { real = await fs.promises.realpath(dir); } catch (e) { /* keep as is */ }
+        if (seen.has(real)) return;
+        seen.add(real);
+        result.push({ dir, topDir });
+    };
+    await add(homeTrashDir(), '/');
+    const uid = typeof process.getuid === 'function' ? process.getuid() : undefined;
+    if (uid === undefined) return result;
+    let mounts: string[] = [];
+    try { mounts = parseMounts(await fs.promises.readFile('/proc/mounts', 'utf8')); } catch (e) { /* not Linux */ }
+    for (const top of mounts) {
+        const shared = path.join(top, '.Trash');
+        try {
+            const st = await fs.promises.lstat(shared);
+            if (st.isDirectory() && (st.mode & 0o1000)) await add(path.join(shared, String(uid)), top);
+        } catch (e) { /* no shared trash */ }
+        await add(path.join(top, `.Trash-${uid}`), top);
+    }
+    return result;
+}
+
+// The entries of `dirs` whose info file and trashed file both exist.
+export async function listTrash(dirs: TrashDirectory[]): Promise<TrashEntry[]> {
+    const entries: TrashEntry[] = [];
+    for (const { dir, topDir } of dirs) {
+        let names: string[] = [];
+        try { names = await fs.promises.readdir(path.join(dir, 'info')); } catch (e) { continue; }
+        for (const file of names) {
+            if (!file.endsWith('.trashinfo')) continue;
+            const name = file.substring(0, file.length - '.trashinfo'.length);
+            try {
+                const info = parseTrashInfo(await fs.promises.readFile(path.join(dir, 'info', file), 'utf8'), topDir);
+                if (!info) continue;
+                await fs.promises.lstat(path.join(dir, 'files', name));
+                entries.push({ trashDir: dir, name, ...info });
+            } catch (e) { /* unreadable or orphaned */ }
+        }
+    }
+    return entries;
+}
+
+// Move a trashed entry back to its original path, creating missing parents.
+// An existing entry there goes through `onConflict`, and `displace` when it is
+// overwritten. Resolves where it was restored to, or undefined when skipped.
+export async function restoreTrashEntry(entry: TrashEntry, onConflict?: ConflictHandler, displace?: Displacer): Promise<string | undefined> {
+    const restored = await moveEntry(trashedPath(entry), entry.originalPath, undefined, onConflict, undefined, displace);
+    if (restored) await forget(entry);
+    return restored;
+}
+
+// Delete a trashed entry for good.
+export async function purgeTrashEntry(entry: TrashEntry) {
+    await fs.promises.rm(trashedPath(entry), { recursive: true, force: true });
+    await forget(entry);
+}
+
+// Drop the info file and the `directorysizes` cache line of an entry that
+// left the trash.
+async function forget(entry: TrashEntry) {
+    try { await fs.promises.unlink(infoPath(entry)); } catch (e) { /* already gone */ }
+    const sizes = path.join(entry.trashDir, 'directorysizes');
+    try {
+        const lines = (await fs.promises.readFile(sizes, 'utf8')).split('\n');
+        const kept = lines.filter((l) => {
+            const name = l.split(' ')[2];
+            try { return !name || decodeURIComponent(name) !== entry.name; } catch (e) { return true; }
+        });
+        if (kept.length !== lines.length) await fs.promises.writeFile(sizes, kept.join('\n'));
+    } catch (e) { /* no cache */ }
+}
@@ -0,0 +1,374 @@
+'use strict';
+
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+
+import { moveEntry } from './fileOps';
+import { gitRemove, gitUnremove } from './git';
+import { DeleteStaging, RetentionPolicy } from './staging';
+
+// Multi-level undo/redo of Dired operations. Every operation is recorded as an
+// entry of primitive steps; removed data is never deleted but kept in the
+// staging area, so both directions can be replayed. Before an
+// entry is replayed, the files it touches are compared with the state recorded
+// when it was last applied, so changes made since are detected.
+
+export type UndoKind = 'create' | 'delete' | 'copy' | 'move' | 'rename' | 'chmod' | 'wdired';
+
+// What identifies the state of an entry on disk.
+export interface Fingerprint {
+    ino: number;
+    size: number;
+    mtimeMs: number;
+    mode: number;
+}
+
+// `path` was deleted after being backed up to `backup`; with `git`, the
+// deletion was staged with `git rm` too, and undo unstages it.
+export interface DeleteStep {
+    type: 'delete';
+    path: string;
+    backup: string;
+    git?: boolean;
+    state?: Fingerprint;
+    undone?: boolean;
+}
+
+// One step of an entry. `undone` is set once the step is reverted, so an entry
+// interrupted by an error can be finished later. `state` is the fingerprint
+// of the entry where the step left it.
+export type UndoStep =
+    // `path` was created (by a create or a copy); undo keeps it in `stash`
+    | { type: 'create', path: string, stash?: string, state?: Fingerprint, undone?: boolean }
+    | DeleteStep
+    | { type: 'move', src: string, dest: string, state?: Fingerprint, undone?: boolean }
+    | { type: 'chmod', path: string, from: number, to: number, undone?: boolean };
+
+export interface UndoEntry {
+    id: number;
+    kind: UndoKind;
+    label: string;
+    time: number;
+    steps: UndoStep[];
+    // when the entry was undone; unset while it is applied
+    undoneAt?: number;
+}
+
+// Where the history is persisted, e.g. `ExtensionContext.workspaceState`.
+export interface UndoStore {
+    get<T>(key: string): T | undefined;
+    update(key: string, value: unknown): Thenable<void>;
+}
+
+// Problems found before replaying an entry. `blocked` ones make it impossible
+// (it would overwrite something or its data is gone); `changed` ones only mean
+// the files were modified since and the user should confirm.
+export interface UndoCheck {
+    blocked: string[];
+    changed: string[];
+}
+
+export type UndoDirection = 'undo' | 'redo';
+
+const STORE_KEY = 'dired.undoHistory';
+
+export async function fingerprint(p: string): Promise<Fingerprint | undefined> {
+    try {
+        const st = await fs.promises.lstat(p);
+        return { ino: st.ino, size: st.size, mtimeMs: st.mtimeMs, mode: st.mode };
+    } catch (e) {
+        return undefined;
+    }
+}
+
+function sameFingerprint(a: Fingerprint | undefined, b: Fingerprint | undefined): boolean {
+    if (!a || !b) return !a && !b;
+    return a.ino === b.ino && a.size === b.size && a.mtimeMs === b.mtimeMs && a.mode === b.mode;
+}
+
+async function exists(p: string): Promise<boolean> {
+    return !!(await fingerprint(p));
+}
+
+export class UndoHistory {
+    private _entries: UndoEntry[];
+    private _nextId: number;
+    private _onDidChange = new vscode.EventEmitter<void>();
+
+    // `limit` is the number of entries kept; older ones are dropped with their
+    // backups. Undone creations are stashed in `staging`.
+    constructor(private readonly _store?: UndoStore, private readonly _limit: () => number = () => 50,
+        readonly staging: DeleteStaging = new DeleteStaging()) {
+        this._entries = (_store && _store.get<UndoEntry[]>(STORE_KEY)) || [];
+        this._nextId = this._entries.reduce((max, e) => Math.max(max, e.id), 0) + 1;
+    }
+
+    get onDidChange(): vscode.Event<void> {
+        return this._onDidChange.event;
+    }
+
+    // Oldest first.
+    get entries(): UndoEntry[] {
+        return this._entries.slice();
+    }
+
+    // The entry `undo` applies to: the newest one still applied.
+    get lastApplied(): UndoEntry | undefined {
+        for (let i = this._entries.length - 1; i >= 0; i--) {
+            if (this._entries[i].undoneAt === undefined) return this._entries[i];
+        }
+        return undefined;
+    }
+
+    // The entry `redo` applies to: the one undone last.
+    get lastUndone(): UndoEntry | undefined {
+        let last: UndoEntry | undefined;
+        for (const e of this._entries) {
+            if (e.undoneAt !== undefined && (!last || e.undoneAt >= (last.undoneAt as number))) last = e;
+        }
+        return last;
+    }
+
+    // Record a finished operation. A new operation drops every undone entry,
+    // as redoing them could clash with it.
+    async record(kind: UndoKind, label: string, steps: UndoStep[]): Promise<UndoEntry | undefined> {
+        if (!steps.length) return undefined;
+        for (const step of steps) await this._remember(step);
+        const dropped = this._entries.filter((e) => e.undoneAt !== undefined);
+        this._entries = this._entries.filter((e) => e.undoneAt === undefined);
+        const entry: UndoEntry = { id: this._nextId++, kind, label, time: Date.now(), steps };
+        this._entries.push(entry);
+        const limit = Math.max(1, this._limit() || 1);
+        if (this._entries.length > limit) dropped.push(...this._entries.splice(0, this._entries.length - limit));
+        for (const e of dropped) await this._discardBackups(e);
+        await this._changed();
+        return entry;
+    }
+
+    // Forget every entry and its backups.
+    async clear() {
+        for (const e of this._entries) await this._discardBackups(e);
+        this._entries = [];
+        await this._changed();
+    }
+
+    // Remove the staged data `policy` expires, or all of it without a policy.
+    // The backups of the newest entry are kept; entries that lose a backup
+    // they need are dropped, so undo never offers what it cannot do.
+    async expireBackups(policy?: RetentionPolicy, now: number = Date.now()): Promise<{ removed: number, bytes: number }> {
+        const newest = this._entries[this._entries.length - 1];
+        const keep = new Set(policy && newest ? backupsOf(newest).map((p) => path.resolve(p)) : []);
+        const { removed, bytes } = await this.staging.cleanup(policy, now, keep);
+        await this.forgetBackups(removed);
+        return { removed: removed.length, bytes };
+    }
+
+    // Drop the entries that need one of the staged `paths`, which are gone.
+    async forgetBackups(paths: string[]) {
+        const gone = new Set(paths.map((p) => path.resolve(p)));
+        const kept = this._entries.filter((e) => !backupsOf(e).some((b) => gone.has(path.resolve(b))));
+        if (kept.length === this._entries.length) return;
+        this._entries = kept;
+        await this._changed();
+    }
+
+    // Find what would prevent replaying `entry` in `direction`. Paths the
+    // earlier steps of the replay vacate or fill are taken into account, so a
+    // chain of moves (e.g. a swap through a temporary name) checks as a whole.
+    async check(entry: UndoEntry, direction: UndoDirection): Promise<UndoCheck> {
+        const result: UndoCheck = { blocked: [], changed: [] };
+        const replayed = new Map<string, boolean>();
+        const present = async (p: string) => replayed.has(p) ? replayed.get(p) as boolean : exists(p);
+        const expect = async (p: string, state: Fingerprint | undefined) => {
+            if (!replayed.has(p)) await expectState(p, state, result);
+            else if (!replayed.get(p)) result.blocked.push(`${p} no longer exists`);
+        };
+        for (const step of pending(entry, direction)) {
+            const undo = direction === 'undo';
+            switch (step.type) {
+                case 'create':
+                    if (undo) {
+                        await expect(step.path, step.state);
+                        replayed.set(step.path, false);
+                    } else {
+                        if (await present(step.path)) result.blocked.push(`${step.path} already exists`);
+                        if (!step.stash || !(await exists(step.stash))) result.blocked.push(`the backup of ${step.path} is gone`);
+                        replayed.set(step.path, true);
+                    }
+                    break;
+                case 'delete':
+                    if (undo) {
+                        if (await present(step.path)) result.blocked.push(`${step.path} already exists`);
+                        if (!(await exists(step.backup))) result.blocked.push(`the backup of ${step.path} is gone`);
+                        replayed.set(step.path, true);
+                    } else {
+                        await expect(step.path, step.state);
+                        replayed.set(step.path, false);
+                    }
+                    break;
+                case 'move': {
+                    const from = undo ? step.dest : step.src;
+                    const to = undo ? step.src : step.dest;
+                    await expect(from, step.state);
+                    if (await present(to)) result.blocked.push(`${to} already exists`);
+                    replayed.set(from, false);
+                    replayed.set(to, true);
+                    break;
+                }
+                case 'chmod': {
+                    // an entry an earlier step moves here is checked by that step
+                    if (replayed.has(step.path)) {
+                        if (!replayed.get(step.path)) result.blocked.push(`${step.path} no longer exists`);
+                        break;
+                    }
+                    const current = await fingerprint(step.path);
+                    if (!current) result.blocked.push(`${step.path} no longer exists`);
+                    else if ((current.mode & 0o7777) !== (undo ? step.to : step.from)) result.changed.push(`the mode of ${step.path} changed`);
+                    break;
+                }
+            }
+        }
+        return result;
+    }
+
+    // Revert `entry`, last step first. `move` performs the moves of move
+    // steps (e.g. with `git mv`); backups are always moved with `moveEntry`.
+    async undo(entry: UndoEntry, move: (from: string, to: string) => Promise<unknown> = moveEntry) {
+        await this._replay(entry, 'undo', move);
+    }
+
+    // Apply `entry` again after it was undone.
+    async redo(entry: UndoEntry, move: (from: string, to: string) => Promise<unknown> = moveEntry) {
+        await this._replay(entry, 'redo', move);
+    }
+
+    // Directories whose listings change when `entry` is replayed.
+    dirs(entry: UndoEntry): string[] {
+        const dirs = new Set<string>();
+        for (const step of entry.steps) {
+            if (step.type === 'move') {
+                dirs.add(path.dirname(step.src));
+                dirs.add(path.dirname(step.dest));
+            } else {
+                dirs.add(path.dirname(step.path));
+            }
+        }
+        return Array.from(dirs);
+    }
+
+    dispose() {
+        this._onDidChange.dispose();
+    }
+
+    private async _replay(entry: UndoEntry, direction: UndoDirection, move: (from: string, to: string) => Promise<unknown>) {
+        const undo = direction === 'undo';
+        try {
+            for (const step of pending(entry, direction)) {
+                switch (step.type) {
+                    case 'create':
+                        if (undo) {
+                            step.stash = step.stash || await this.staging.location(step.path);
+                            await moveEntry(step.path, step.stash);
+                        } else if (step.stash) {
+                            await moveEntry(step.stash, step.path);
+                        }
+                        break;
+                    case 'delete':
+                        if (undo) {
+                            await moveEntry(step.backup, step.path);
+                            if (step.git) await gitUnremove(step.path);
+                        } else {
+                            await moveEntry(step.path, step.backup);
+                            if (step.git) await gitRemove(step.path);
+                        }
+                        break;
+                    case 'move':
+                        if (undo) await move(step.dest, step.src);
+                        else await move(step.src, step.dest);
+                        break;
+                    case 'chmod':
+                        await fs.promises.chmod(step.path, undo ? step.from : step.to);
+                        break;
+                }
+                step.undone = undo;
+                await this._remember(step);
+            }
+        } finally {
+            if (entry.steps.every((s) => !!s.undone)) entry.undoneAt = Date.now();
+            else if (entry.steps.every((s) => !s.undone)) entry.undoneAt = undefined;
+            await this._changed();
+        }
+    }
+
+    // Fingerprint the entry a step left on disk, for the next check.
+    private async _remember(step: UndoStep) {
+        switch (step.type) {
+            case 'create':
+            case 'delete':
+                step.state = await fingerprint(step.path);
+                break;
+            case 'move':
+                step.state = await fingerprint(step.undone ? step.src : step.dest);
+                break;
+        }
+    }
+
+    // Remove the data only a dropped entry could have brought back.
+    private async _discardBackups(entry: UndoEntry) {
+        for (const backup of backupsOf(entry)) {
+            try { await this.staging.purge(backup); } catch (e) { /* ignore */ }
+        }
+    }
+
+    private async _changed() {
+        try { if (this._store) await this._store.update(STORE_KEY, this._entries); } catch (e) { /* ignore */ }
+        try { this._onDidChange.fire(); } catch (e) { /* ignore */ }
+    }
+}
+
+// The staged data replaying `entry` in its current direction needs: the
+// backups of deletes still applied and the stashes of undone creations.
+function backupsOf(entry: UndoEntry): string[] {
+    const backups: string[] = [];
+    for (const step of entry.steps) {
+        if (step.type === 'delete' && !step.undone) backups.push(step.backup);
+        if (step.type === 'create' && step.undone && step.stash) backups.push(step.stash);
+    }
+    return backups;
+}
+
+// Steps still to replay in `direction`, in the order to replay them.
+function pending(entry: UndoEntry, direction: UndoDirection): UndoStep[] {
+    return direction === 'undo'
+        ? entry.steps.filter((s) => !s.undone).reverse()
+        : entry.steps.filter((s) => !!s.undone);
+}
+
+async function expectState(p: string, state: Fingerprint | undefined, result: UndoCheck) {
+    const current = await fingerprint(p);
+    if (!current) result.blocked.push(`${p} no longer exists`);
+    else if (!sameFingerprint(current, state)) result.changed.push(`${p} changed since`);
+}
+
+// The steps of `moved` entries. One that overwrote an entry staged to
+// `backup` first deletes it, so undo puts it back after moving the other out.
+export function moveSteps(moved: { src: string, dest: string, backup?: string }[]): UndoStep[] {
+    const steps: UndoStep[] = [];
+    for (const m of moved) {
+        if (m.backup) steps.push({ type: 'delete', path: m.dest, backup: m.backup });
+        steps.push({ type: 'move', src: m.src, dest: m.dest });
+    }
+    return steps;
+}
+
+// e.g. "Delete foo.txt, 5 min ago"
+export function describeEntry(entry: UndoEntry, now: number = Date.now()): string {
+    const seconds = Math.max(0, Math.round((now - entry.time) / 1000));
+    let ago: string;
+    if (seconds < 60) ago = 'just now';
+    else if (seconds < 3600) ago = `${Math.floor(seconds / 60)} min ago`;
+    else if (seconds < 86400) ago = `${Math.floor(seconds / 3600)} h ago`;
+    else ago = new Date(entry.time).toLocaleString();
+    return `${entry.label}, ${ago}`;
+}
@@ -0,0 +1,457 @@
+'use strict';
+
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+
+import FileItem from './fileItem';
+
+// wdired: editing the file names and modes of a Dired listing as text. A
+// buffer is read-only until edit mode is entered; saving compares the edited
+// text with the listing edit mode started from and turns the differences into
+// a plan of renames, mode changes and, optionally, deletes for removed lines. Lines are matched by
+// content rather than by index, so removed lines do not shift the rest, and
+// renames are applied through temporary names so swaps and chains work.
+
+// An entry line of the listing edit mode started from.
+export interface ListedEntry {
+    line: number;
+    // directory the entry is listed in (its section, or its parent in a tree)
+    dir: string;
+    name: string;
+}
+
+export interface WdiredRename {
+    src: string;
+    dest: string;
+    // line of the edited text (index of the entry in a batch rename)
+    line: number;
+}
+
+export interface WdiredChmod {
+    // as listed; renames of the same edit are applied first
+    path: string;
+    // permission bits to set
+    mode: number;
+    line: number;
+}
+
+export interface WdiredProblem {
+    // line of the edited text the problem is reported on
+    line: number;
+    message: string;
+}
+
+export interface WdiredPlan {
+    renames: WdiredRename[];
+    chmods: WdiredChmod[];
+    // entries whose lines were removed
+    deletes: string[];
+    problems: WdiredProblem[];
+}
+
+// Largest (old x new) block of changed lines aligned by content; bigger
+// blocks are paired in order.
+const ALIGN_LIMIT = 4000000;
+
+// Characters Windows does not allow in file names, besides control characters.
+const WINDOWS_ILLEGAL = /[<>:"|?*]/;
+
+interface Alignment {
+    // [old line, new line]
+    pairs: Array<[number, number]>;
+    removed: number[];
+    added: number[];
+}
+
+// Everything before the name column, with the mark column blanked; undefined
+// for lines that are not entry lines.
+function columnsOf(text: string): string | undefined {
+    try {
+        const col = FileItem.parseLine('.', text).startColumn;
+        if (col !== undefined && text.trim()) return ' ' + text.substring(1, col);
+    } catch (e) { /* not an entry line */ }
+    return undefined;
+}
+
+// The columns of an entry line that an edit cannot change: those before the
+// name, without the mark and the mode.
+function fixedColumnsOf(text: string): string | undefined {
+    const line = ' ' + text.substring(1);
+    const mode = modeField(line);
+    return columnsOf(mode ? line.substring(0, mode.index) + '-'.repeat(10) + line.substring(mode.index + mode.text.length) : line);
+}
+
+// Match the lines of the edited text with the lines they were edited from.
+// When only names and modes changed (as many lines as before, each with the
+// fixed columns of the line it replaces), each line is its old line edited.
+// Otherwise the alignment keeps the order of the lines and pairs the most,
+// preferring unchanged lines, then entry lines whose columns before the name
+// are unchanged, then any entry lines; lines left over were removed or added,
+// except that a line removed and added again unchanged was only moved.
+function align(a: string[], b: string[]): Alignment {
+    const result: Alignment = { pairs: [], removed: [], added: [] };
+    if (a.length === b.length && a.every((line, k) => fixedColumnsOf(line) === fixedColumnsOf(b[k]))) {
+        // e.g. two names swapped, which matching by content would take for
+        // two lines swapped
+        for (let k = 0; k < a.length; k++) result.pairs.push([k, k]);
+        return result;
+    }
+    let start = 0;
+    while (start < a.length && start < b.length && a[start] === b[start]) {
+        result.pairs.push([start, start]);
+        start++;
+    }
+    let endA = a.length;
+    let endB = b.length;
+    while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+        endA--;
+        endB--;
+    }
+    const n = endA - start;
+    const m = endB - start;
+    if (n * m > ALIGN_LIMIT) {
+        for (let k = 0; k < Math.max(n, m); k++) {
+            if (k < n && k < m) result.pairs.push([start + k, start + k]);
+            else if (k < n) result.removed.push(start + k);
+            else result.added.push(start + k);
+        }
+    } else {
+        const colsA = a.slice(start, endA).map(columnsOf);
+        const colsB = b.slice(start, endB).map(columnsOf);
+        const weight = (i: number, j: number): number => {
+            if (a[start + i] === b[start + j]) return 3;
+            const x = colsA[i];
+            const y = colsB[j];
+            if (x === undefined || y === undefined) return 0;
+            return x === y ? 2 : 1;
+        };
+        // score[i][j]: best alignment of the old lines from i and the new lines from j
+        const width = m + 1;
+        const score = new Uint32Array((n + 1) * width);
+        for (let i = n - 1; i >= 0; i--) {
+            for (let j = m - 1; j >= 0; j--) {
+                const w = weight(i, j);
+                score[i * width + j] = Math.max(score[(i + 1) * width + j], score[i * width + j + 1],
+                    w ? score[(i + 1) * width + j + 1] + w : 0);
+            }
+        }
+        let i = 0;
+        let j = 0;
+        while (i < n || j < m) {
+            const w = i < n && j < m ? weight(i, j) : 0;
+            if (w && score[i * width + j] === score[(i + 1) * width + j + 1] + w) {
+                result.pairs.push([start + i++, start + j++]);
+            } else if (i < n && (j === m || score[i * width + j] === score[(i + 1) * width + j])) {
+                result.removed.push(start + i++);
+            } else {
+                result.added.push(start + j++);
+            }
+        }
+    }
+    for (let k = 0; endA + k < a.length; k++) result.pairs.push([endA + k, endB + k]);
+    for (const o of result.removed.slice()) {
+        const j = result.added.findIndex((k) => b[k] === a[o]);
+        if (j < 0) continue;
+        result.pairs.push([o, result.added[j]]);
+        result.added.splice(j, 1);
+        result.removed.splice(result.removed.indexOf(o), 1);
+    }
+    result.pairs.sort((x, y) => x[0] - y[0]);
+    return result;
+}
+
+// Permission bits of a mode string as rendered in the listing
+// (`-rwxr-sr-t`), or undefined when it is not one.
+export function parseModeString(text: string): number | undefined {
+    if (!/^[-dlpscb]([r-][w-][xsS-]){2}[r-][w-][xtT-]$/.test(text)) return undefined;
+    let bits = 0;
+    for (let k = 0; k < 3; k++) {
+        const [r, w, x] = text.substring(1 + 3 * k, 4 + 3 * k);
+        const shift = 3 * (2 - k);
+        if (r === 'r') bits |= 4 << shift;
+        if (w === 'w') bits |= 2 << shift;
+        if (x !== '-' && x === x.toLowerCase()) bits |= 1 << shift;
+        // setuid, setgid, sticky
+        if (x !== '-' && x.toLowerCase() !== 'x') bits |= 0o1000 << (2 - k);
+    }
+    return bits;
+}
+
+// The mode column of an entry line: the first field after the mark column.
+function modeField(text: string): { index: number, text: string } | undefined {
+    const m = /^[ *](\s*)(\S+)/.exec(text);
+    return m ? { index: 1 + m[1].length, text: m[2] } : undefined;
+}
+
+// Why `name` cannot be the new name of an entry, if it cannot. Names may
+// contain separators to move an entry into an existing subdirectory.
+export function nameProblem(name: string, platform: string = process.platform): string | undefined {
+    if (!name.trim()) return 'Empty file name';
+    if (name.indexOf('\0') >= 0) return `"${name}" contains a NUL character`;
+    const segments = name.split(platform === 'win32' ? /[\\/]/ : '/');
+    if (path.isAbsolute(name) || segments.some((s) => !s)) return `"${name}" has an empty path segment`;
+    if (segments.some((s) => s === '.' || s === '..')) return `"${name}" must not contain "." or ".." segments`;
+    if (platform === 'win32' && segments.some((s) => WINDOWS_ILLEGAL.test(s) || /[. ]$/.test(s) || Array.from(s).some((c) => c.charCodeAt(0) < 32))) return `"${name}" is not a valid Windows file name`;
+    return undefined;
+}
+
+// The renames, mode changes and deletes described by editing `oldLines` into
+// `newLines`, and the problems preventing them. `listed` are the entry lines of
+// `oldLines`. Removed entry lines are deletes when `allowDelete` is set and
+// problems otherwise. The plan is checked against the filesystem: sources
+// must still exist, destinations must be free (or vacated by the same edit)
+// and must be in existing directories.
+export async function planEdit(oldLines: string[], newLines: string[], listed: ListedEntry[], allowDelete: boolean): Promise<WdiredPlan> {
+    const plan: WdiredPlan = { renames: [], chmods: [], deletes: [], problems: [] };
+    const entries = new Map<number, ListedEntry>();
+    for (const e of listed) entries.set(e.line, e);
+    const { pairs, removed, added } = align(oldLines, newLines);
+    const problem = (line: number, message: string) => plan.problems.push({ line, message });
+
+    for (const [o, n] of pairs) {
+        const before = oldLines[o];
+        let after = newLines[n];
+        if (before === after) continue;
+        const entry = entries.get(o);
+        if (!entry) {
+            problem(n, 'Only file names and modes can be edited');
+            continue;
+        }
+        if (isDotEntry(entry)) {
+            problem(n, `"${entry.name}" cannot be edited`);
+            continue;
+        }
+        const oldMode = modeField(before);
+        const newMode = modeField(after);
+        let mode: number | undefined;
+        if (oldMode && newMode && oldMode.text !== newMode.text) {
+            const bits = parseModeString(newMode.text);
+            if (bits === undefined) {
+                problem(n, `Invalid mode string "${newMode.text}", expected e.g. -rw-r--r--`);
+                continue;
+            }
+            if (newMode.text[0] !== oldMode.text[0]) {
+                problem(n, 'The file type cannot be changed');
+                continue;
+            }
+            if (oldMode.text[0] === 'l') {
+                problem(n, 'Symbolic links have no mode of their own');
+                continue;
+            }
+            if (bits !== parseModeString(oldMode.text)) mode = bits;
+            // check the rest of the line as if the mode was unchanged
+            after = after.substring(0, newMode.index) + oldMode.text + after.substring(newMode.index + newMode.text.length);
+        }
+        let oldItem: FileItem;
+        let newItem: FileItem;
+        try {
+            oldItem = FileItem.parseLine(entry.dir, before);
+            newItem = FileItem.parseLine(entry.dir, after);
+        } catch (e) {
+            problem(n, 'Not a listing line');
+            continue;
+        }
+        if (newItem.startColumn === undefined || !newItem.fileName.trim()) {
+            problem(n, 'Not a listing line');
+            continue;
+        }
+        if (columnsOf(before) !== columnsOf(after)) {
+            problem(n, 'Only file names and modes can be edited');
+            continue;
+        }
+        if (oldItem.linkTarget !== newItem.linkTarget) {
+            problem(n, 'Link targets cannot be edited');
+            continue;
+        }
+        const src = path.join(entry.dir, entry.name);
+        if (mode !== undefined) plan.chmods.push({ path: src, mode, line: n });
+        if (newItem.fileName === entry.name) continue;
+        const invalid = nameProblem(newItem.fileName);
+        if (invalid) {
+            problem(n, invalid);
+            continue;
+        }
+        plan.renames.push({ src, dest: path.join(entry.dir, newItem.fileName), line: n });
+    }
+    for (const j of added) {
+        if (newLines[j].trim()) problem(j, 'Lines cannot be added');
+    }
+    for (const o of removed) {
+        const entry = entries.get(o);
+        if (!entry) continue;
+        if (allowDelete && !isDotEntry(entry)) {
+            plan.deletes.push(path.join(entry.dir, entry.name));
+        } else {
+            // report it where the line was
+            const at = pairs.filter(([po]) => po < o).reduce((line, [, pn]) => Math.max(line, pn + 1), 0);
+            problem(Math.min(at, Math.max(0, newLines.length - 1)), isDotEntry(entry)
+                ? `"${entry.name}" cannot be removed`
+                : `"${entry.name}" was removed; set dired.wdiredDeleteRemovedLines to delete files this way`);
+        }
+    }
+    // a delete inside a deleted directory is part of that delete
+    plan.deletes = plan.deletes.filter((d) => !plan.deletes.some((other) => other !== d && isInsideOf(other, d)));
+    await checkPlan(plan);
+    return plan;
+}
+
+// The `.` and `..` lines stand for the listed directory and its parent, which
+// an edit must never rename or delete.
+function isDotEntry(entry: ListedEntry): boolean {
+    return entry.name === '.' || entry.name === '..';
+}
+
+function isInsideOf(dir: string, p: string): boolean {
+    const rel = path.relative(dir, p);
+    return !!rel && !rel.startsWith('..') && !path.isAbsolute(rel);
+}
+
+async function lstatOf(p: string): Promise<fs.Stats | undefined> {
+    try {
+        return await fs.promises.lstat(p);
+    } catch (e) {
+        return undefined;
+    }
+}
+
+// Add the problems found by comparing the renames of `plan` with each other,
+// its deletes and the disk.
+export async function checkPlan(plan: WdiredPlan) {
+    const key = (p: string) => process.platform === 'win32' || process.platform === 'darwin' ? path.resolve(p).toLowerCase() : path.resolve(p);
+    const sources = new Set(plan.renames.map((r) => key(r.src)));
+    const vacated = new Set(plan.deletes.map(key));
+    const targets = new Map<string, WdiredRename>();
+    for (const r of plan.renames) {
+        const problem = (message: string) => plan.problems.push({ line: r.line, message });
+        const name = path.basename(r.dest);
+        const src = await lstatOf(r.src);
+        if (!src) {
+            problem(`${path.basename(r.src)} no longer exists`);
+            continue;
+        }
+        const other = targets.get(key(r.dest));
+        if (other) {
+            problem(`${name} is also the new name of line ${other.line + 1}`);
+            continue;
+        }
+        targets.set(key(r.dest), r);
+        if (isInsideOf(r.src, r.dest)) {
+            problem(`${path.basename(r.src)} cannot be moved into itself`);
+            continue;
+        }
+        const deleted = plan.deletes.find((d) => isInsideOf(d, r.src));
+        if (deleted) {
+            problem(`${path.basename(r.src)} is inside ${path.basename(deleted)}, which is deleted`);
+            continue;
+        }
+        const parent = path.dirname(r.dest);
+        const moving = plan.renames.find((x) => key(x.src) === key(parent)) || plan.deletes.find((d) => key(d) === key(parent));
+        if (moving) {
+            problem(`${path.basename(parent)} is renamed or deleted by the same edit`);
+            continue;
+        }
+        const parentStat = await lstatOf(parent);
+        if (!parentStat || !parentStat.isDirectory()) {
+            problem(`Directory ${parent} does not exist`);
+            continue;
+        }
+        const existing = await lstatOf(r.dest);
+        // a case-only rename finds the source itself
+        const sameEntry = existing && existing.ino === src.ino && existing.dev === src.dev && key(r.dest) === key(r.src);
+        if (existing && !sameEntry && !sources.has(key(r.dest)) && !vacated.has(key(r.dest))) {
+            problem(`${name} already exists`);
+        }
+    }
+    for (const c of plan.chmods) {
+        if (!(await lstatOf(c.path))) plan.problems.push({ line: c.line, message: `${path.basename(c.path)} no longer exists` });
+    }
+    plan.problems.sort((x, y) => x.line - y.line);
+}
+
+// Perform `renames` with `move`, so that swaps and chains work: within each
+// depth (deepest first, so entries inside a renamed directory go before it),
+// every source another rename needs as its destination is first moved to a
+// temporary name next to it. Resolves the moves made, in order, including
+// those to and from temporary names, and the renames that failed as
+// "name: reason". A failed rename whose source was moved aside is moved back.
+export async function applyRenames(renames: WdiredRename[], move: (from: string, to: string) => Promise<string | undefined>): Promise<{ moves: { src: string, dest: string }[], failed: string[] }> {
+    const moves: { src: string, dest: string }[] = [];
+    const failed: string[] = [];
+    const depth = (p: string) => path.resolve(p).split(path.sep).length;
+    const depths = Array.from(new Set(renames.map((r) => depth(r.src)))).sort((x, y) => y - x);
+    for (const d of depths) {
+        const group = renames.filter((r) => depth(r.src) === d);
+        const current = new Map<WdiredRename, string>(group.map((r): [WdiredRename, string] => [r, r.src]));
+        // move aside every source that is also a destination
+        const destinations = new Set(group.map((r) => path.resolve(r.dest)));
+        for (const r of group) {
+            if (!destinations.has(path.resolve(r.src))) continue;
+            const temp = await temporaryName(r.src);
+            try {
+                const moved = await move(r.src, temp);
+                if (!moved) throw new Error('skipped');
+                moves.push({ src: path.resolve(r.src), dest: moved });
+                current.set(r, moved);
+            } catch (e) {
+                failed.push(`${path.basename(r.src)}: ${e}`);
+                current.delete(r);
+            }
+        }
+        for (const r of group) {
+            const from = current.get(r);
+            if (from === undefined) continue;
+            try {
+                const moved = await move(from, r.dest);
+                if (!moved) throw new Error('skipped');
+                moves.push({ src: path.resolve(from), dest: moved });
+            } catch (e) {
+                failed.push(`${path.basename(r.src)}: ${e}`);
+                if (from !== r.src) {
+                    try {
+                        const back = await move(from, r.src);
+                        if (back) moves.push({ src: path.resolve(from), dest: back });
+                    } catch (err) {
+                        failed.push(`${path.basename(r.src)} was left as ${path.basename(from)}`);
+                    }
+                }
+            }
+        }
+    }
+    return { moves, failed };
+}
+
+// A free name next to `p` for moving it aside.
+async function temporaryName(p: string): Promise<string> {
+    for (let i = 0; ; i++) {
+        const candidate = path.join(path.dirname(p), `.#dired-${process.pid}-${i}-${path.basename(p)}`);
+        if (!(await lstatOf(candidate))) return candidate;
+    }
+}
+
+// e.g. "IMG_0001.jpg → photo-0001.jpg"
+export function describeRename(r: WdiredRename): string {
+    return `${path.basename(r.src)} → ${path.relative(path.dirname(r.src), r.dest)}`;
+}
+
+// Ask before applying `plan`, listing what it does.
+export async function confirmPlan(plan: WdiredPlan): Promise<boolean> {
+    const lines = plan.renames.map(describeRename)
+        .concat(plan.chmods.map((c) => `chmod ${octal(c.mode)} ${path.basename(c.path)}`))
+        .concat(plan.deletes.map((d) => `delete ${path.basename(d)}`));
+    const shown = lines.slice(0, 20);
+    if (lines.length > shown.length) shown.push(`… and ${lines.length - shown.length} more`);
+    const parts: string[] = [];
+    if (plan.renames.length) parts.push(`rename ${plan.renames.length} entr${plan.renames.length === 1 ? 'y' : 'ies'}`);
+    if (plan.chmods.length) parts.push(`change the mode of ${plan.chmods.length} entr${plan.chmods.length === 1 ? 'y' : 'ies'}`);
+    if (plan.deletes.length) parts.push(`delete ${plan.deletes.length} entr${plan.deletes.length === 1 ? 'y' : 'ies'}`);
+    const choice = await vscode.window.showInformationMessage(`Dired: ${parts.join(', ')}?`, { modal: true, detail: shown.join('\n') }, 'Apply');
+    return choice === 'Apply';
+}
+
+// e.g. 644, 2755
+function octal(mode: number): string {
+    let text = mode.toString(8);
+    while (text.length < 3) text = '0' + text;
+    return text;
+}
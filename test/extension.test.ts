@@ -12,6 +12,26 @@ import * as vscode from 'vscode';
 import * as myExtension from '../src/extension';
 import FileItem from '../src/fileItem';
 import { IDResolver } from '../src/idResolver';
+import DiredProvider from '../src/provider';
+import { naturalCompare, sortEntries } from '../src/sort';
+import { parseListingSwitches, formatTime, formatSize, parseSize, DEFAULT_LISTING_SWITCHES } from '../src/listingFormat';
+import { globToRegExp, matchGlob } from '../src/glob';
+import { parseFindArgs, findFiles, tokenizeArgs, parseSizeTest, parseAgeTest } from '../src/find';
+import { NameFilter, parseFilter, compileFilter, describeFilter } from '../src/filter';
+import { parseIgnoreFile, isIgnored, makeOmitPredicate, IgnoreIndex } from '../src/omit';
+import { DiredBuffer } from '../src/diredBuffer';
+import { resolveTargets } from '../src/dwimTarget';
+import { isInside, moveEntry, movedPath, copyTree, rewriteLinkTarget, FAITHFUL_COPY } from '../src/fileOps';
+import { ConflictResolver, ConflictChoice } from '../src/conflict';
+import { OperationProgress, OperationCancelled, scanTree, formatDuration } from '../src/progress';
+import { JobQueue } from '../src/jobQueue';
+import { UndoHistory, UndoStore, moveSteps } from '../src/undoHistory';
+import { DeleteStaging, expiredItems } from '../src/staging';
+import { parseTrashInfo, parseMounts, listTrash, restoreTrashEntry, purgeTrashEntry } from '../src/trash';
+import { ListedEntry, planEdit, applyRenames, nameProblem, parseModeString } from '../src/wdired';
+import { expandReplacement, planBatchRename, renameAll } from '../src/batchRename';
+import { MarkCandidate, MarkPredicate, byName, byExtension, isDirectory, isExecutable, isSymlink, bySize, byAge, byOwner, byContent } from '../src/mark';
+import { parsePorcelain, classifyStatus, GitStatusSnapshot, runGit, gitMove, gitRemove, gitStage, gitUnstage, gitDiscard } from '../src/git';
 import * as fs from 'fs';
 import * as os from 'os';
 import * as path from 'path';
@@ -155,4 +175,963 @@ suite("Extension Tests", () => {
         await vscode.commands.executeCommand('extension.dired.findInFolder');
         assert.ok(true);
     });
-});
\ No newline at end of file
+
+    test('Mark set commands execute without throwing', async () => {
+        try { await vscode.commands.executeCommand('extension.dired.open'); } catch (e) { /* see above */ }
+        for (const command of ['toggleMarks', 'nextMarked', 'prevMarked', 'unmarkAll']) {
+            await vscode.commands.executeCommand(`extension.dired.${command}`);
+        }
+        assert.ok(true);
+    });
+
+    test('naturalCompare orders embedded numbers numerically', () => {
+        const names = ['file10', 'file2', 'File1', 'file02'];
+        names.sort(naturalCompare);
+        assert.deepEqual(names, ['File1', 'file2', 'file02', 'file10']);
+    });
+
+    test('sortEntries keeps dot entries on top and honors dirsFirst/reverse', () => {
+        const entries = [
+            { filename: '..', isDirectory: true, size: 0, mtimeMs: 0 },
+            { filename: 'b.txt', isDirectory: false, size: 10, mtimeMs: 3 },
+            { filename: 'a', isDirectory: true, size: 4096, mtimeMs: 1 },
+            { filename: '.', isDirectory: true, size: 0, mtimeMs: 0 },
+            { filename: 'c.md', isDirectory: false, size: 99, mtimeMs: 2 },
+        ];
+        const bySize = sortEntries(entries, { key: 'size', reverse: false, dirsFirst: false }).map(e => e.filename);
+        assert.deepEqual(bySize, ['.', '..', 'a', 'c.md', 'b.txt']);
+        const byTime = sortEntries(entries, { key: 'mtime', reverse: true, dirsFirst: true }).map(e => e.filename);
+        assert.deepEqual(byTime, ['.', '..', 'a', 'c.md', 'b.txt']);
+        const byExt = sortEntries(entries, { key: 'extension', reverse: false, dirsFirst: false }).map(e => e.filename);
+        assert.deepEqual(byExt, ['.', '..', 'a', 'c.md', 'b.txt']);
+    });
+
+    test('dirFromHeader strips indicators from the header line', () => {
+        assert.equal(DiredProvider.dirFromHeader('/home/me:'), '/home/me');
+        assert.equal(DiredProvider.dirFromHeader('/home/me: [sort: size, reversed]'), '/home/me');
+        assert.equal(DiredProvider.dirFromHeader('Dired: C:\\Users\\me:'), 'C:\\Users\\me');
+    });
+
+    test('listingSwitches layouts round-trip through parseLine', () => {
+        const layouts = ['-l --si', '-lh', '-l', '-lgo --time-style=iso', '-l --full-time', '-lc --time-style=relative'];
+        try {
+            for (const sw of layouts) {
+                FileItem.format = parseListingSwitches(sw);
+                const old = Date.now() - 400 * 24 * 3600 * 1000;
+                const f = new FileItem('/tmp', 'a file.txt', false, true, 'me', 'staff', 123456, 0, 0, 0, 0, '-rw-r--r--', true, undefined, old);
+                const line = f.line();
+                const parsed = FileItem.parseLine('/tmp', line);
+                assert.equal(parsed.fileName, 'a file.txt', `layout ${sw}: ${line}`);
+                assert.equal(parsed.startColumn, f.startColumn, `layout ${sw}: ${line}`);
+                assert.equal(parsed.line(), line, `layout ${sw}: ${line}`);
+            }
+        } finally {
+            FileItem.format = parseListingSwitches(DEFAULT_LISTING_SWITCHES);
+        }
+    });
+
+    test('time styles and size styles', () => {
+        const now = new Date(2025, 11, 6, 12, 0).getTime();
+        const recent = new Date(2025, 11, 1, 9, 5).getTime();
+        const old = new Date(2024, 0, 2, 9, 5).getTime();
+        assert.equal(formatTime(recent, 'default', now), 'Dec 01 09:05');
+        assert.equal(formatTime(old, 'default', now), 'Jan 02  2024');
+        assert.equal(formatTime(old, 'iso', now), '2024-01-02 09:05');
+        assert.equal(formatTime(now - 3 * 3600 * 1000, 'relative', now).trim(), '3h ago');
+        assert.equal(formatSize(5500, 'si'), '5.5K');
+        assert.equal(formatSize(5500, 'binary'), '5.4Ki');
+        assert.equal(formatSize(5500, 'bytes'), '5500');
+        assert.equal(parseSize('5.5K'), 5500);
+        assert.equal(parseSize('2Ki'), 2048);
+    });
+
+    test('symbolic links render and parse as name -> target', () => {
+        const tmp = fs.mkdtempSync(path.join(os.tmpdir(), 'dired-test-'));
+        try {
+            fs.writeFileSync(path.join(tmp, 'real.txt'), 'x');
+            fs.symlinkSync('real.txt', path.join(tmp, 'link.txt'));
+            fs.symlinkSync('missing.txt', path.join(tmp, 'dangling'));
+            const f = FileItem.create(tmp, 'link.txt', fs.lstatSync(path.join(tmp, 'link.txt')), 'real.txt');
+            const line = f.line();
+            assert.equal(line.endsWith('link.txt -> real.txt'), true, line);
+            const parsed = FileItem.parseLine(tmp, line);
+            assert.equal(parsed.fileName, 'link.txt');
+            assert.equal(parsed.linkTarget, 'real.txt');
+            assert.equal(parsed.startColumn, f.startColumn);
+            assert.equal(parsed.isBrokenLink, false);
+            assert.equal(parsed.uri && parsed.uri.scheme, 'file');
+            const d = FileItem.create(tmp, 'dangling', fs.lstatSync(path.join(tmp, 'dangling')), 'missing.txt');
+            const dangling = FileItem.parseLine(tmp, d.line());
+            assert.equal(dangling.isBrokenLink, true);
+            assert.equal(dangling.uri, undefined);
+        } finally {
+            try { fs.rmSync(tmp, { recursive: true, force: true }); } catch (e) { /* ignore */ }
+        }
+    });
+    test('entries resolve against the section they belong to', () => {
+        const a = new FileItem('/root', 'a.txt', false, true, 'me', 'staff', 1, 0, 0, 0, 0, '-rw-r--r--', false, undefined, Date.now());
+        const sub = new FileItem('/root', 'sub', true, false, 'me', 'staff', 1, 0, 0, 0, 0, 'drwxr-xr-x', false, undefined, Date.now());
+        const b = new FileItem('/root/sub', 'b.txt', false, true, 'me', 'staff', 1, 0, 0, 0, 0, '-rw-r--r--', false, undefined, Date.now());
+        const lines = ['/root: [sort: name]', a.line(), sub.line(), '', '/root/sub:', b.line()];
+        const doc = { lineCount: lines.length, lineAt: (i: number) => ({ text: lines[i] }) };
+        assert.deepEqual(DiredProvider.headerLines(doc), [0, 4]);
+        assert.equal(DiredProvider.entryDir(doc, 5), '/root/sub');
+        assert.equal(DiredProvider.parseEntryAt(doc, 3), null);
+        assert.equal(DiredProvider.parseEntryAt(doc, 4), null);
+        const paths = Array.from(DiredProvider.entries(doc)).map((e) => `${e.line}:${e.item.path}`);
+        assert.deepEqual(paths, [`1:${path.join('/root', 'a.txt')}`, `2:${path.join('/root', 'sub')}`, `5:${path.join('/root/sub', 'b.txt')}`]);
+    });
+    test('expanded tree entries resolve against their parent directory', () => {
+        const entry = (dir: string, name: string, isDir: boolean, depth: number, selected = false) => {
+            const f = new FileItem(dir, name, isDir, !isDir, 'me', 'staff', 1, 0, 0, 0, 0, isDir ? 'drwxr-xr-x' : '-rw-r--r--', selected, undefined, Date.now());
+            f.depth = depth;
+            return f.line();
+        };
+        const lines = ['/root:', entry('/root', 'sub', true, 0), entry('/root/sub', 'inner', true, 1), entry('/root/sub/inner', 'c.txt', false, 2, true), entry('/root/sub', 'b.txt', false, 1), entry('/root', 'z.txt', false, 0)];
+        const doc = { lineCount: lines.length, lineAt: (i: number) => ({ text: lines[i] }) };
+        const c = DiredProvider.parseEntryAt(doc, 3);
+        assert.equal(c && c.path, path.join('/root/sub/inner', 'c.txt'));
+        assert.equal(c && c.depth, 2);
+        const b = DiredProvider.parseEntryAt(doc, 4);
+        assert.equal(b && b.path, path.join('/root/sub', 'b.txt'));
+        const z = DiredProvider.parseEntryAt(doc, 5);
+        assert.equal(z && z.path, path.join('/root', 'z.txt'));
+        const folds = DiredProvider.foldingRanges(doc).map((r) => `${r.start}-${r.end}`).sort();
+        assert.deepEqual(folds, ['0-5', '1-4', '2-3']);
+    });
+    test('globs match names and relative paths', () => {
+        assert.equal(globToRegExp('*.ts').test('a.ts'), true);
+        assert.equal(globToRegExp('*.ts').test('src/a.ts'), false);
+        assert.equal(globToRegExp('**/*.{js,ts}').test('src/deep/a.js'), true);
+        assert.equal(globToRegExp('file[!0-9]').test('file1'), false);
+        assert.equal(matchGlob('node_modules', path.join('a', 'node_modules')), true);
+        assert.equal(matchGlob('src/*.ts', 'src/a.ts'), true);
+        assert.deepEqual(tokenizeArgs(`-name "a b" -path 'x y'`), ['-name', 'a b', '-path', 'x y']);
+        assert.throws(() => parseFindArgs('-size ten'));
+        assert.throws(() => parseFindArgs('-bogus'));
+    });
+
+    test('find-dired walks a tree with predicates and excludes', async () => {
+        const tmp = fs.mkdtempSync(path.join(os.tmpdir(), 'dired-find-'));
+        try {
+            fs.mkdirSync(path.join(tmp, 'src', 'deep'), { recursive: true });
+            fs.mkdirSync(path.join(tmp, 'node_modules'));
+            fs.writeFileSync(path.join(tmp, 'src', 'a.ts'), 'x');
+            fs.writeFileSync(path.join(tmp, 'src', 'deep', 'b.ts'), 'x'.repeat(4096));
+            fs.writeFileSync(path.join(tmp, 'node_modules', 'c.ts'), 'x');
+            fs.writeFileSync(path.join(tmp, 'readme.md'), 'x');
+            const ts = await findFiles(tmp, parseFindArgs('-name "*.ts" -not -path node_modules'), 100);
+            assert.deepEqual(ts.paths, [path.join('src', 'a.ts'), path.join('src', 'deep', 'b.ts')]);
+            const big = await findFiles(tmp, parseFindArgs('-type f -size +1k -mtime -1'), 100);
+            assert.deepEqual(big.paths, [path.join('src', 'deep', 'b.ts')]);
+            const capped = await findFiles(tmp, parseFindArgs('-type f'), 2);
+            assert.equal(capped.truncated, true);
+            assert.equal(DiredProvider.findArgs(DiredProvider.findUri(tmp, '-name "*.ts" & +x')), '-name "*.ts" & +x');
+        } finally {
+            try { fs.rmSync(tmp, { recursive: true, force: true }); } catch (e) { /* ignore */ }
+        }
+    });
+    test('narrowing filters keep matches, their tree parents and headers', () => {
+        const accept = (text: string) => compileFilter(parseFilter(text) as NameFilter);
+        assert.equal(accept('CONF')('my-config.json'), true);
+        assert.equal(accept('*.ts')('src/a.ts'), true);
+        assert.equal(accept('~jc')('config.json'), false);
+        assert.equal(accept('~cfjs')('config.js'), true);
+        assert.equal(accept('/^\\d+_/')('01_intro.md'), true);
+        assert.throws(() => accept('/(/'));
+
+        const entry = (dir: string, name: string, isDir: boolean, depth: number) => {
+            const f = new FileItem(dir, name, isDir, !isDir, 'me', 'staff', 1, 0, 0, 0, 0, isDir ? 'drwxr-xr-x' : '-rw-r--r--', false, undefined, Date.now());
+            f.depth = depth;
+            return f.line();
+        };
+        const header = `/root: [sort: name] ${describeFilter({ mode: 'glob', pattern: '[ab]*.ts' })}`;
+        const lines = [header, entry('/root', '..', true, 0), entry('/root', 'sub', true, 0), entry('/root/sub', 'a.ts', false, 1), entry('/root', 'z.md', false, 0)];
+        const narrowed = DiredProvider.narrowLines(lines, (item) => item.fileName.endsWith('.ts'));
+        assert.deepEqual(narrowed, [lines[0], lines[1], lines[2], lines[3]]);
+        assert.equal(DiredProvider.dirFromHeader(header), '/root');
+    });
+    test('omit mode combines glob patterns with .gitignore rules', async () => {
+        const rules = parseIgnoreFile('# comment\nbuild/\n*.log\n!keep.log\n/docs/*.pdf\n');
+        const chain = [{ base: '/repo', rules }];
+        assert.equal(isIgnored(chain, '/repo/build', true), true);
+        assert.equal(isIgnored(chain, '/repo/build', false), false);
+        assert.equal(isIgnored(chain, '/repo/build/out.js', false), true);
+        assert.equal(isIgnored(chain, '/repo/src/a.log', false), true);
+        assert.equal(isIgnored(chain, '/repo/keep.log', false), false);
+        assert.equal(isIgnored(chain, '/repo/docs/a.pdf', false), true);
+        assert.equal(isIgnored(chain, '/repo/src/docs/a.pdf', false), false);
+
+        const omit = makeOmitPredicate('/repo', ['*~', '.#*'], chain);
+        assert.equal(omit('notes.txt~', false), true);
+        assert.equal(omit('.#lock', false), true);
+        assert.equal(omit('trace.log', false), true);
+        assert.equal(omit('..', true), false);
+        assert.equal(omit('src', true), false);
+
+        const tmp = fs.mkdtempSync(path.join(os.tmpdir(), 'dired-omit-'));
+        try {
+            fs.mkdirSync(path.join(tmp, '.git'));
+            fs.mkdirSync(path.join(tmp, 'pkg'));
+            fs.writeFileSync(path.join(tmp, '.gitignore'), 'dist/\n');
+            fs.writeFileSync(path.join(tmp, 'pkg', '.ignore'), '*.tmp\n');
+            const found = await new IgnoreIndex().chainFor(path.join(tmp, 'pkg'));
+            assert.deepEqual(found.map((f) => f.base), [tmp, path.join(tmp, 'pkg')]);
+            assert.equal(isIgnored(found, path.join(tmp, 'pkg', 'dist'), true), true);
+            assert.equal(isIgnored(found, path.join(tmp, 'pkg', 'a.tmp'), false), true);
+        } finally {
+            try { fs.rmSync(tmp, { recursive: true, force: true }); } catch (e) { /* ignore */ }
+        }
+    });
+    test('git status snapshot classifies porcelain output', () => {
+        const out = [' M src/a.ts', 'M  src/b.ts', 'R  src/new.ts', 'src/old.ts', '?? scratch/', '!! dist/', 'UU lib/x.ts', ''].join('\0');
+        const entries = parsePorcelain(out);
+        assert.deepEqual(entries.map((e) => e.path), ['src/a.ts', 'src/b.ts', 'src/new.ts', 'scratch/', 'dist/', 'lib/x.ts']);
+        assert.equal(classifyStatus('MM'), 'modified');
+        assert.equal(classifyStatus('A '), 'staged');
+        assert.equal(classifyStatus('AA'), 'conflicted');
+
+        const root = path.resolve('/repo');
+        const snap = new GitStatusSnapshot(root, entries);
+        const kind = (rel: string, isDir = false) => {
+            const st = snap.lookup(path.join(root, rel), isDir);
+            return st ? `${st.kind}${st.fromDescendant ? '*' : ''}` : undefined;
+        };
+        assert.equal(kind('src/a.ts'), 'modified');
+        assert.equal(kind('src/new.ts'), 'staged');
+        assert.equal(kind('scratch/notes/todo.md'), 'untracked');
+        assert.equal(kind('dist', true), 'ignored');
+        assert.equal(kind('src', true), 'modified*');
+        assert.equal(kind('lib', true), 'conflicted*');
+        assert.equal(kind('README.md'), undefined);
+        assert.equal(snap.lookup(path.resolve('/elsewhere/a.ts'), false), undefined);
+    });
+    test('git-aware operations in a temporary repository', async function () {
+        this.timeout(20000);
+        const tmp = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'dired-git-')));
+        const status = async () => (await runGit(tmp, ['status', '--porcelain'])).split('\n').filter((l) => !!l).sort();
+        try {
+            await runGit(tmp, ['init', '-q']);
+            fs.writeFileSync(path.join(tmp, 'a.txt'), 'a');
+            fs.writeFileSync(path.join(tmp, 'b.txt'), 'b');
+            await runGit(tmp, ['add', '.']);
+            await runGit(tmp, ['-c', 'user.name=t', '-c', 'user.email=t@example.com', 'commit', '-q', '-m', 'init']);
+
+            assert.equal(await gitMove(path.join(tmp, 'a.txt'), path.join(tmp, 'c.txt')), true);
+            assert.equal(await gitRemove(path.join(tmp, 'b.txt')), true);
+            assert.equal(fs.existsSync(path.join(tmp, 'b.txt')), false);
+            assert.deepEqual(await status(), ['D  b.txt', 'R  a.txt -> c.txt']);
+
+            // untracked files are left to the caller
+            fs.writeFileSync(path.join(tmp, 'new.txt'), 'n');
+            assert.equal(await gitMove(path.join(tmp, 'new.txt'), path.join(tmp, 'n2.txt')), false);
+            assert.equal(await gitRemove(path.join(tmp, 'new.txt')), false);
+
+            const staged = await gitStage([path.join(tmp, 'new.txt')]);
+            assert.deepEqual(staged.done, [path.join(tmp, 'new.txt')]);
+            await gitUnstage([path.join(tmp, 'c.txt')]);
+            assert.deepEqual(await status(), ['?? c.txt', 'A  new.txt', 'D  a.txt', 'D  b.txt']);
+
+            fs.writeFileSync(path.join(tmp, 'new.txt'), 'changed');
+            fs.writeFileSync(path.join(tmp, 'loose.txt'), 'x');
+            const discarded = await gitDiscard([path.join(tmp, 'new.txt'), path.join(tmp, 'loose.txt')]);
+            assert.deepEqual(discarded.skipped, [path.join(tmp, 'loose.txt')]);
+            assert.equal(fs.readFileSync(path.join(tmp, 'new.txt'), 'utf8'), 'n');
+            assert.equal(fs.existsSync(path.join(tmp, 'loose.txt')), true);
+        } finally {
+            try { fs.rmSync(tmp, { recursive: true, force: true }); } catch (e) { /* ignore */ }
+        }
+    });
+    test('undoing a delete staged with git rm unstages it', async function () {
+        this.timeout(20000);
+        const tmp = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'dired-git-')));
+        const status = async () => (await runGit(tmp, ['status', '--porcelain'])).split('\n').filter((l) => !!l).sort();
+        try {
+            await runGit(tmp, ['init', '-q']);
+            fs.writeFileSync(path.join(tmp, 'a.txt'), 'a');
+            await runGit(tmp, ['add', '.']);
+            await runGit(tmp, ['-c', 'user.name=t', '-c', 'user.email=t@example.com', 'commit', '-q', '-m', 'init']);
+
+            const target = path.join(tmp, 'a.txt');
+            const history = new UndoHistory(undefined, () => 50, new DeleteStaging());
+            const backup = await history.staging.stage(target);
+            assert.equal(await gitRemove(target), true);
+            const entry = (await history.record('delete', 'Delete a.txt', [{ type: 'delete', path: target, backup, git: true }]))!;
+            assert.deepEqual(await status(), ['D  a.txt']);
+            await history.undo(entry);
+            assert.equal(fs.readFileSync(target, 'utf8'), 'a');
+            assert.deepEqual(await status(), []);
+            await history.redo(entry);
+            assert.equal(fs.existsSync(target), false);
+            assert.deepEqual(await status(), ['D  a.txt']);
+        } finally {
+            try { fs.rmSync(tmp, { recursive: true, force: true }); } catch (e) { /* ignore */ }
+        }
+    });
+    test('Dired buffers keep separate state and reset it on directory change', () => {
+        const root = path.resolve('/tmp/dired-buffer');
+        const a = new DiredBuffer(vscode.Uri.file(root).with({ scheme: 'dired' }), root);
+        const b = new DiredBuffer(vscode.Uri.file(path.join(root, 'other')).with({ scheme: 'dired' }), path.join(root, 'other'));
+        a.marks.add(path.join(root, 'x.txt'));
+        a.insertedSubdirs.push(path.join(root, 'sub'));
+        a.expandedDirs.add(path.join(root, 'tree'));
+        a.cursors.set(root, { line: 3, col: 52 });
+        assert.equal(b.marks.size, 0);
+        assert.equal(a.key === b.key, false);
+
+        assert.equal(a.shows(root), true);
+        assert.equal(a.shows(path.join(root, 'sub')), true);
+        assert.equal(a.shows(path.join(root, 'tree')), true);
+        assert.equal(a.shows(path.join(root, 'sub', 'deeper')), false);
+
+        assert.equal(a.showDirectory(root + path.sep), false);
+        assert.equal(a.marks.size, 1);
+        assert.equal(a.showDirectory(path.join(root, 'sub')), true);
+        assert.equal(a.marks.size, 0);
+        assert.deepEqual(a.insertedSubdirs, []);
+        assert.equal(a.expandedDirs.size, 0);
+        assert.deepEqual(a.cursors.get(root), { line: 3, col: 52 });
+
+        const find = new DiredBuffer(vscode.Uri.file(root).with({ scheme: 'dired' }), root, '-name *.ts');
+        assert.equal(find.isFind, true);
+        assert.equal(find.shows(path.join(root, 'sub', 'deeper')), true);
+        assert.equal(find.shows(path.resolve('/elsewhere')), false);
+    });
+    test('copy/move destinations resolve into a target directory', () => {
+        const cwd = path.resolve('/work/left');
+        const a = path.join(cwd, 'a.txt');
+        const b = path.join(cwd, 'b');
+        assert.deepEqual(resolveTargets([a], '../right', cwd, true), [{ src: a, dest: path.resolve('/work/right/a.txt') }]);
+        assert.deepEqual(resolveTargets([a], 'renamed.txt', cwd, false), [{ src: a, dest: path.join(cwd, 'renamed.txt') }]);
+        // several sources always go inside the target, even if it does not exist yet
+        assert.deepEqual(resolveTargets([a, b], '/work/new', cwd, false).map((p) => p.dest),
+            [path.resolve('/work/new/a.txt'), path.resolve('/work/new/b')]);
+    });
+    test('moveEntry creates parents, refuses self-moves and falls back on EXDEV', async () => {
+        const tmp = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'dired-move-')));
+        try {
+            fs.mkdirSync(path.join(tmp, 'dir', 'inner'), { recursive: true });
+            fs.writeFileSync(path.join(tmp, 'dir', 'inner', 'f.txt'), 'f');
+            fs.writeFileSync(path.join(tmp, 'a.txt'), 'a');
+
+            await moveEntry(path.join(tmp, 'a.txt'), path.join(tmp, 'new', 'parent', 'a.txt'));
+            assert.equal(fs.readFileSync(path.join(tmp, 'new', 'parent', 'a.txt'), 'utf8'), 'a');
+
+            assert.equal(isInside(path.join(tmp, 'dir', 'inner'), path.join(tmp, 'dir')), true);
+            assert.equal(isInside(path.join(tmp, 'dir2'), path.join(tmp, 'dir')), false);
+            await assert.rejects(moveEntry(path.join(tmp, 'dir'), path.join(tmp, 'dir', 'inner', 'dir')), /into itself/);
+
+            const crossDevice = async () => {
+                throw Object.assign(new Error('EXDEV: cross-device link not permitted'), { code: 'EXDEV' });
+            };
+            await moveEntry(path.join(tmp, 'dir'), path.join(tmp, 'moved'), crossDevice);
+            assert.equal(fs.existsSync(path.join(tmp, 'dir')), false);
+            assert.equal(fs.readFileSync(path.join(tmp, 'moved', 'inner', 'f.txt'), 'utf8'), 'f');
+        } finally {
+            try { fs.rmSync(tmp, { recursive: true, force: true }); } catch (e) { /* ignore */ }
+        }
+    });
+    test('movedPath follows moved entries and their contents', () => {
+        const moves = [{ src: path.resolve('/w/dir'), dest: path.resolve('/x/dir2') }, { src: path.resolve('/w/a.txt'), dest: path.resolve('/x/a.txt') }];
+        assert.equal(movedPath('/w/a.txt', moves), path.resolve('/x/a.txt'));
+        assert.equal(movedPath('/w/dir/sub/f', moves), path.resolve('/x/dir2/sub/f'));
+        assert.equal(movedPath('/w/dirty', moves), path.resolve('/w/dirty'));
+    });
+    test('conflict policy decides per clashing file and records a summary', async () => {
+        const tmp = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'dired-conflict-')));
+        try {
+            const src = path.join(tmp, 'src');
+            const dest = path.join(tmp, 'dest');
+            fs.mkdirSync(src);
+            fs.mkdirSync(dest);
+            for (const n of ['a.txt', 'b.txt', 'c.txt']) fs.writeFileSync(path.join(src, n), 'new ' + n);
+            fs.writeFileSync(path.join(dest, 'a.txt'), 'old a');
+            fs.writeFileSync(path.join(dest, 'b.txt'), 'old b');
+
+            // answer "keep both" once, then "skip all"
+            const answers: ConflictChoice[] = [{ action: 'keepBoth', applyToAll: false }, { action: 'skip', applyToAll: true }];
+            let asked = 0;
+            const resolver = new ConflictResolver('ask', async () => { asked++; return answers.shift(); });
+            await copyTree(src, dest, resolver.handler);
+            assert.equal(asked, 2);
+            assert.equal(fs.readFileSync(path.join(dest, 'a.txt'), 'utf8'), 'old a');
+            assert.equal(fs.readFileSync(path.join(dest, 'a (1).txt'), 'utf8'), 'new a.txt');
+            assert.equal(fs.readFileSync(path.join(dest, 'b.txt'), 'utf8'), 'old b');
+            assert.equal(fs.readFileSync(path.join(dest, 'c.txt'), 'utf8'), 'new c.txt');
+            assert.equal(resolver.summary(), '1 skipped, 1 kept both');
+
+            // a fixed policy never prompts; overwrite-if-newer keeps the newer file
+            const past = new Date(Date.now() - 60000);
+            fs.utimesSync(path.join(dest, 'c.txt'), past, past);
+            fs.writeFileSync(path.join(src, 'c.txt'), 'newest c');
+            const newer = new ConflictResolver('overwriteIfNewer', async () => { throw new Error('prompted'); });
+            // the overwritten file is handed to the displacer instead of being removed
+            const displaced = path.join(tmp, 'displaced.txt');
+            const displace = async (p: string) => { fs.renameSync(p, displaced); return displaced; };
+            assert.equal(await moveEntry(path.join(src, 'c.txt'), path.join(dest, 'c.txt'), undefined, newer.handler, undefined, displace), path.join(dest, 'c.txt'));
+            assert.equal(fs.readFileSync(path.join(dest, 'c.txt'), 'utf8'), 'newest c');
+            assert.equal(fs.readFileSync(displaced, 'utf8'), 'new c.txt');
+            assert.deepEqual(newer.overwritten, [path.join(dest, 'c.txt')]);
+        } finally {
+            try { fs.rmSync(tmp, { recursive: true, force: true }); } catch (e) { /* ignore */ }
+        }
+    });
+    test('operation progress counts files and bytes and stops on cancel', async () => {
+        const tmp = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'dired-progress-')));
+        try {
+            const src = path.join(tmp, 'src');
+            fs.mkdirSync(path.join(src, 'sub'), { recursive: true });
+            fs.writeFileSync(path.join(src, 'a.txt'), '12345');
+            fs.writeFileSync(path.join(src, 'sub', 'b.txt'), '123');
+            fs.writeFileSync(path.join(tmp, 'c.txt'), '12');
+            assert.deepEqual(await scanTree(src), { files: 2, bytes: 8 });
+
+            let now = 0;
+            const progress = new OperationProgress(() => false, () => now);
+            await progress.scan([src, path.join(tmp, 'c.txt')]);
+            assert.deepEqual(progress.total, { files: 3, bytes: 10 });
+            progress.begin(src);
+            await copyTree(src, path.join(tmp, 'copy'), undefined, progress);
+            progress.complete(src);
+            assert.deepEqual(progress.done, { files: 2, bytes: 8 });
+            now = 4000;
+            assert.equal(Math.round(progress.etaMs || 0), 1000);
+            assert.equal(progress.message(), '2/3 files, 8 of 10, about 0:01 left');
+            // an entry finished without per-file reports (e.g. a rename) is credited whole
+            progress.begin(path.join(tmp, 'c.txt'));
+            progress.complete(path.join(tmp, 'c.txt'));
+            assert.equal(progress.percent, 100);
+
+            let cancel = false;
+            const cancellable = new OperationProgress(() => cancel);
+            await cancellable.scan([src]);
+            cancel = true;
+            await assert.rejects(copyTree(src, path.join(tmp, 'copy2'), undefined, cancellable), (e: unknown) => e instanceof OperationCancelled);
+            assert.equal(fs.existsSync(path.join(tmp, 'copy2', 'a.txt')), false);
+            assert.equal(formatDuration(3725000), '1:02:05');
+        } finally {
+            try { fs.rmSync(tmp, { recursive: true, force: true }); } catch (e) { /* ignore */ }
+        }
+    });
+    test('job queue bounds concurrency and serializes overlapping directories', async () => {
+        const finished: string[] = [];
+        const queue = new JobQueue(() => 2, (job) => { finished.push(`${job.title}:${job.status}`); });
+        const gates: { [name: string]: () => void } = {};
+        const started: string[] = [];
+        const run = (name: string) => () => new Promise<void>((resolve) => {
+            started.push(name);
+            gates[name] = resolve;
+        });
+        const tick = () => new Promise((r) => setTimeout(r, 10));
+        queue.enqueue('a', ['/q/one'], run('a'));
+        queue.enqueue('b', ['/q/one/sub'], run('b'));
+        queue.enqueue('c', ['/q/two'], run('c'));
+        const d = queue.enqueue('d', ['/q/three'], run('d'));
+        await tick();
+        // b overlaps a and waits; c takes the second slot; d waits for a slot
+        assert.deepEqual(started, ['a', 'c']);
+        d.cancel();
+        gates['a']();
+        await tick();
+        assert.deepEqual(started, ['a', 'c', 'b']);
+        gates['b']();
+        gates['c']();
+        await queue.drain();
+        assert.equal(d.status, 'cancelled');
+        // a job cancelled before it started touched nothing and is not reported
+        assert.deepEqual(finished.sort(), ['a:done', 'b:done', 'c:done']);
+        queue.clearFinished();
+        assert.equal(queue.jobs.length, 0);
+        queue.dispose();
+    });
+    test('paused jobs wait at the next checkpoint and can be cancelled', async () => {
+        const queue = new JobQueue(() => 1, () => undefined);
+        let copied = 0;
+        const job = queue.enqueue('copy', ['/p'], async (j) => {
+            const progress = new OperationProgress(() => j.cancelRequested, Date.now, () => j.waitWhilePaused());
+            for (let i = 0; i < 5; i++) {
+                await progress.checkpoint();
+                copied++;
+                if (i === 1) j.pause();
+            }
+        });
+        await new Promise((r) => setTimeout(r, 20));
+        assert.equal(job.status, 'paused');
+        assert.equal(copied, 2);
+        job.cancel();
+        await queue.drain();
+        assert.equal(job.status, 'cancelled');
+        assert.equal(copied, 2);
+        queue.dispose();
+    });
+    test('fidelity copy keeps modes, times, links, hard links and empty directories', async () => {
+        const tmp = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'dired-fidelity-')));
+        try {
+            const src = path.join(tmp, 'src');
+            fs.mkdirSync(path.join(src, 'empty'), { recursive: true });
+            fs.writeFileSync(path.join(src, 'run.sh'), '#!/bin/sh');
+            fs.chmodSync(path.join(src, 'run.sh'), 0o750);
+            const old = new Date(2020, 0, 2, 3, 4, 5);
+            fs.utimesSync(path.join(src, 'run.sh'), old, old);
+            fs.linkSync(path.join(src, 'run.sh'), path.join(src, 'same.sh'));
+            fs.symlinkSync(path.join(src, 'run.sh'), path.join(src, 'abs-link'));
+            fs.symlinkSync('/etc/hostname', path.join(src, 'outside-link'));
+
+            const dest = path.join(tmp, 'dest');
+            await copyTree(src, dest, undefined, undefined, { ...FAITHFUL_COPY, rewriteSymlinks: true });
+            const st = fs.statSync(path.join(dest, 'run.sh'));
+            assert.equal(st.mode & 0o777, 0o750);
+            assert.equal(st.mtime.getTime(), old.getTime());
+            assert.equal(fs.statSync(path.join(dest, 'same.sh')).ino, st.ino);
+            assert.equal(fs.statSync(path.join(dest, 'empty')).isDirectory(), true);
+            assert.equal(fs.readlinkSync(path.join(dest, 'abs-link')), 'run.sh');
+            assert.equal(fs.readlinkSync(path.join(dest, 'outside-link')), '/etc/hostname');
+
+            // plain copies duplicate hard links and keep link targets verbatim
+            const plain = path.join(tmp, 'plain');
+            await copyTree(src, plain);
+            assert.notEqual(fs.statSync(path.join(plain, 'same.sh')).ino, fs.statSync(path.join(plain, 'run.sh')).ino);
+            assert.equal(fs.readlinkSync(path.join(plain, 'abs-link')), path.join(src, 'run.sh'));
+            assert.equal(rewriteLinkTarget('../a/b', '/r/x/l', '/c/x/l', '/r', '/c'), '../a/b');
+        } finally {
+            try { fs.rmSync(tmp, { recursive: true, force: true }); } catch (e) { /* ignore */ }
+        }
+    });
+    test('undo history undoes and redoes entries and persists them', async () => {
+        const tmp = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'dired-undo-')));
+        const saved = new Map<string, unknown>();
+        const store: UndoStore = {
+            get: <T>(key: string) => saved.get(key) as T | undefined,
+            update: async (key: string, value: unknown) => { saved.set(key, JSON.parse(JSON.stringify(value))); }
+        };
+        try {
+            const a = path.join(tmp, 'a.txt');
+            const b = path.join(tmp, 'sub', 'b.txt');
+            fs.writeFileSync(a, 'a');
+            await moveEntry(a, b);
+            const c = path.join(tmp, 'c.txt');
+            fs.writeFileSync(c, 'c');
+            const history = new UndoHistory(store);
+            const moved = await history.record('move', 'Move a.txt', [{ type: 'move', src: a, dest: b }]);
+            const created = await history.record('create', 'Create c.txt', [{ type: 'create', path: c }]);
+            assert.ok(moved && created);
+            assert.equal(history.lastApplied, created);
+
+            // undo an older entry directly, then redo it
+            assert.deepEqual(await history.check(moved!, 'undo'), { blocked: [], changed: [] });
+            await history.undo(moved!);
+            assert.equal(fs.readFileSync(a, 'utf8'), 'a');
+            assert.equal(history.lastUndone, moved);
+            await history.redo(moved!);
+            assert.equal(fs.existsSync(a), false);
+            assert.equal(fs.readFileSync(b, 'utf8'), 'a');
+
+            // the history is restored from the store
+            const reloaded = new UndoHistory(store);
+            assert.deepEqual(reloaded.entries.map((e) => e.label), ['Move a.txt', 'Create c.txt']);
+
+            // an undone creation is stashed and can be redone
+            const entry = reloaded.lastApplied!;
+            await reloaded.undo(entry);
+            assert.equal(fs.existsSync(c), false);
+            assert.equal((await reloaded.check(entry, 'redo')).blocked.length, 0);
+            await reloaded.redo(entry);
+            assert.equal(fs.readFileSync(c, 'utf8'), 'c');
+        } finally {
+            try { fs.rmSync(tmp, { recursive: true, force: true }); } catch (e) { /* ignore */ }
+        }
+    });
+
+    test('undo history detects changes and refuses to overwrite', async () => {
+        const tmp = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'dired-undo-')));
+        try {
+            const history = new UndoHistory();
+            const src = path.join(tmp, 'old.txt');
+            const dest = path.join(tmp, 'new.txt');
+            fs.writeFileSync(dest, 'x');
+            const entry = (await history.record('rename', 'Rename old.txt', [{ type: 'move', src, dest }]))!;
+            fs.writeFileSync(dest, 'changed');
+            const changed = await history.check(entry, 'undo');
+            assert.deepEqual(changed.blocked, []);
+            assert.equal(changed.changed.length, 1);
+            fs.writeFileSync(src, 'in the way');
+            assert.equal((await history.check(entry, 'undo')).blocked.length, 1);
+
+            // a new entry drops the undone ones
+            fs.rmSync(src);
+            await history.undo(entry);
+            await history.record('create', 'Create other', [{ type: 'create', path: dest }]);
+            assert.deepEqual(history.entries.map((e) => e.label), ['Create other']);
+            assert.equal(history.lastUndone, undefined);
+        } finally {
+            try { fs.rmSync(tmp, { recursive: true, force: true }); } catch (e) { /* ignore */ }
+        }
+    });
+    test('retention expires old staged items, then the oldest beyond the size limit', () => {
+        const day = 86400000;
+        const now = 100 * day;
+        const items = [
+            { path: 'old', stagedAt: now - 10 * day, bytes: 10 },
+            { path: 'big', stagedAt: now - 2 * day, bytes: 500 },
+            { path: 'mid', stagedAt: now - day, bytes: 300 },
+            { path: 'new', stagedAt: now, bytes: 2000 },
+        ];
+        const names = (policy: { maxAgeMs: number, maxBytes: number }) => expiredItems(items, policy, now).map((i) => i.path);
+        assert.deepEqual(names({ maxAgeMs: 7 * day, maxBytes: 0 }), ['old']);
+        assert.deepEqual(names({ maxAgeMs: 0, maxBytes: 2400 }), ['old', 'big']);
+        // the newest item survives the size limit on its own
+        assert.deepEqual(names({ maxAgeMs: 0, maxBytes: 100 }), ['old', 'big', 'mid']);
+        assert.deepEqual(names({ maxAgeMs: 0, maxBytes: 0 }), []);
+        // the other items of the last multi-delete are kept as well
+        const keep = new Set([path.resolve('mid'), path.resolve('big')]);
+        assert.deepEqual(expiredItems(items, { maxAgeMs: 0, maxBytes: 100 }, now, keep).map((i) => i.path), ['old']);
+    });
+
+    test('undo entries whose backups were purged are dropped', async () => {
+        const history = new UndoHistory();
+        const first = (await history.record('delete', 'Delete a', [{ type: 'delete', path: '/x/a', backup: '/staged/1-a' }]))!;
+        await history.record('delete', 'Delete 2 items', [
+            { type: 'delete', path: '/x/b', backup: '/staged/2-b' },
+            { type: 'delete', path: '/x/c', backup: '/staged/3-c' }
+        ]);
+        await history.forgetBackups(['/staged/2-b']);
+        assert.deepEqual(history.entries.map((e) => e.id), [first.id]);
+        assert.equal(history.lastApplied, history.entries[0]);
+        await history.forgetBackups(['/staged/unrelated']);
+        assert.equal(history.entries.length, 1);
+    });
+
+    test('undoing an overwriting move restores the overwritten entry', async () => {
+        const tmp = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'dired-overwrite-')));
+        try {
+            const src = path.join(tmp, 'a.txt');
+            const dest = path.join(tmp, 'b.txt');
+            fs.writeFileSync(src, 'new');
+            fs.writeFileSync(dest, 'old');
+            const history = new UndoHistory(undefined, () => 50, new DeleteStaging());
+            let backup: string | undefined;
+            const target = await moveEntry(src, dest, undefined, async () => dest, undefined, async (p) => backup = await history.staging.stage(p));
+            assert.ok(backup);
+            const entry = (await history.record('move', 'Move a.txt', moveSteps([{ src, dest: target!, backup }])))!;
+            assert.deepEqual(entry.steps.map((s) => s.type), ['delete', 'move']);
+            await history.undo(entry);
+            assert.equal(fs.readFileSync(src, 'utf8'), 'new');
+            assert.equal(fs.readFileSync(dest, 'utf8'), 'old');
+            await history.redo(entry);
+            assert.equal(fs.existsSync(src), false);
+            assert.equal(fs.readFileSync(dest, 'utf8'), 'new');
+        } finally {
+            try { fs.rmSync(tmp, { recursive: true, force: true }); } catch (e) { /* ignore */ }
+        }
+    });
+
+    test('deleting stages the entry by renaming and undo brings it back', async () => {
+        const tmp = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'dired-staging-')));
+        try {
+            const dir = path.join(tmp, 'tree');
+            fs.mkdirSync(path.join(dir, 'sub'), { recursive: true });
+            fs.writeFileSync(path.join(dir, 'sub', 'f.txt'), 'data');
+            const ino = fs.statSync(path.join(dir, 'sub', 'f.txt')).ino;
+            const history = new UndoHistory(undefined, () => 50, new DeleteStaging());
+            const staged = await history.staging.stage(dir);
+            assert.equal(fs.existsSync(dir), false);
+            // same filesystem: renamed, not copied
+            assert.equal(fs.statSync(path.join(staged, 'sub', 'f.txt')).ino, ino);
+            const entry = (await history.record('delete', 'Delete tree', [{ type: 'delete', path: dir, backup: staged }]))!;
+            await history.undo(entry);
+            assert.equal(fs.readFileSync(path.join(dir, 'sub', 'f.txt'), 'utf8'), 'data');
+            assert.equal(fs.existsSync(staged), false);
+        } finally {
+            try { fs.rmSync(tmp, { recursive: true, force: true }); } catch (e) { /* ignore */ }
+        }
+    });
+    test('trashinfo files and mount tables are parsed', () => {
+        const info = parseTrashInfo('[Trash Info]\nPath=/home/me/notes%20old.txt\nDeletionDate=2024-05-01T13:45:10\n', '/');
+        assert.ok(info);
+        assert.equal(info!.originalPath, '/home/me/notes old.txt');
+        assert.equal(info!.deletedAt, new Date(2024, 4, 1, 13, 45, 10).getTime());
+        // per-volume trash: relative to the mount point
+        assert.equal(parseTrashInfo('[Trash Info]\nPath=docs/a.txt\n', '/mnt/usb')!.originalPath, path.join('/mnt/usb', 'docs', 'a.txt'));
+        assert.equal(parseTrashInfo('[Other]\nPath=/x\n', '/'), undefined);
+        assert.deepEqual(parseMounts('/dev/sda1 / ext4 rw 0 0\n/dev/sdb1 /media/my\\040disk vfat rw 0 0\n'), ['/', '/media/my disk']);
+    });
+
+    test('trash entries are listed, restored with conflicts and purged', async () => {
+        const tmp = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'dired-trash-')));
+        try {
+            const trash = path.join(tmp, 'Trash');
+            fs.mkdirSync(path.join(trash, 'files'), { recursive: true });
+            fs.mkdirSync(path.join(trash, 'info'), { recursive: true });
+            const put = (name: string, original: string) => {
+                fs.writeFileSync(path.join(trash, 'files', name), name);
+                fs.writeFileSync(path.join(trash, 'info', `${name}.trashinfo`), `[Trash Info]\nPath=${encodeURI(original)}\nDeletionDate=2024-01-02T03:04:05\n`);
+            };
+            const original = path.join(tmp, 'home', 'a.txt');
+            put('a.txt', original);
+            put('a.2.txt', original);
+            // an info file without its trashed file is ignored
+            fs.writeFileSync(path.join(trash, 'info', 'gone.trashinfo'), '[Trash Info]\nPath=/gone\n');
+            const entries = (await listTrash([{ dir: trash, topDir: '/' }])).sort((a, b) => a.name.localeCompare(b.name));
+            assert.deepEqual(entries.map((e) => e.name), ['a.2.txt', 'a.txt']);
+
+            assert.equal(await restoreTrashEntry(entries[1]), original);
+            assert.equal(fs.readFileSync(original, 'utf8'), 'a.txt');
+            assert.equal(fs.existsSync(path.join(trash, 'info', 'a.txt.trashinfo')), false);
+            // the second copy clashes with the restored one
+            const restored = await restoreTrashEntry(entries[0], async () => undefined);
+            assert.equal(restored, undefined);
+            assert.equal(fs.existsSync(path.join(trash, 'files', 'a.2.txt')), true);
+
+            await purgeTrashEntry(entries[0]);
+            assert.deepEqual(await listTrash([{ dir: trash, topDir: '/' }]), []);
+        } finally {
+            try { fs.rmSync(tmp, { recursive: true, force: true }); } catch (e) { /* ignore */ }
+        }
+    });
+
+    // Listing lines of `names` in `dir`, as wdired sees them.
+    function wdiredListing(dir: string, names: string[]): { lines: string[], listed: ListedEntry[] } {
+        const lines = [`${dir}:`];
+        const listed: ListedEntry[] = [];
+        for (const name of names) {
+            listed.push({ line: lines.length, dir, name });
+            lines.push(FileItem.create(dir, name, fs.lstatSync(path.join(dir, name))).line());
+        }
+        return { lines, listed };
+    }
+
+    test('wdired plans swaps and chains and reports invalid edits', async () => {
+        const dir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'dired-wdired-')));
+        try {
+            for (const name of ['a', 'b', 'c', 'd']) fs.writeFileSync(path.join(dir, name), name);
+            const { lines, listed } = wdiredListing(dir, ['a', 'b', 'c', 'd']);
+            const rename = (line: string, from: string, to: string) => line.substring(0, line.length - from.length) + to;
+
+            // a <-> b swapped, c -> d -> e
+            let plan = await planEdit(lines, [lines[0], rename(lines[1], 'a', 'b'), rename(lines[2], 'b', 'a'), rename(lines[3], 'c', 'd'), rename(lines[4], 'd', 'e')], listed, false);
+            assert.deepEqual(plan.problems, []);
+            assert.deepEqual(plan.renames.map((r) => [path.basename(r.src), path.basename(r.dest)]), [['a', 'b'], ['b', 'a'], ['c', 'd'], ['d', 'e']]);
+
+            // a removed line does not shift the lines below it
+            const removed = [lines[0], lines[1], lines[3], rename(lines[4], 'd', 'x')];
+            plan = await planEdit(lines, removed, listed, false);
+            assert.equal(plan.problems.length, 1);
+            assert.ok(/"b" was removed/.test(plan.problems[0].message));
+            plan = await planEdit(lines, removed, listed, true);
+            assert.deepEqual(plan.problems, []);
+            assert.deepEqual(plan.renames.map((r) => path.basename(r.dest)), ['x']);
+            assert.deepEqual(plan.deletes, [path.join(dir, 'b')]);
+
+            // duplicates, existing names, missing directories and other columns
+            plan = await planEdit(lines, [lines[0], rename(lines[1], 'a', 'x'), rename(lines[2], 'b', 'x'), rename(lines[3], 'c', 'd'), lines[4]], listed, false);
+            assert.deepEqual(plan.problems.map((p) => p.line), [2, 3]);
+            plan = await planEdit(lines, [lines[0], lines[1], lines[2], rename(lines[3], 'c', 'no/c'), lines[4]], listed, false);
+            assert.deepEqual(plan.problems.map((p) => p.line), [3]);
+            assert.ok(/does not exist/.test(plan.problems[0].message));
+            plan = await planEdit(lines, [lines[0] + 'x', lines[1].replace(/^ /, 'X')].concat(lines.slice(2)), listed, false);
+            assert.deepEqual(plan.problems.map((p) => p.line), [0, 1]);
+            assert.equal(nameProblem('../a'), '"../a" must not contain "." or ".." segments');
+            assert.ok(nameProblem('a?b', 'win32'));
+            assert.equal(nameProblem('sub/a'), undefined);
+        } finally {
+            try { fs.rmSync(dir, { recursive: true, force: true }); } catch (e) { /* ignore */ }
+        }
+    });
+
+    test('wdired never renames or deletes the . and .. entries', async () => {
+        const dir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'dired-wdired-')));
+        try {
+            fs.writeFileSync(path.join(dir, 'a'), 'a');
+            const { lines, listed } = wdiredListing(dir, ['.', '..', 'a']);
+            const rename = (line: string, from: string, to: string) => line.substring(0, line.length - from.length) + to;
+
+            // removing the lines is a problem even when removed lines delete
+            for (const gone of [1, 2]) {
+                const plan = await planEdit(lines, lines.filter((_l, i) => i !== gone), listed, true);
+                assert.deepEqual(plan.deletes, []);
+                assert.equal(plan.problems.length, 1);
+                assert.ok(/cannot be removed/.test(plan.problems[0].message));
+            }
+            // so is renaming them
+            let plan = await planEdit(lines, [lines[0], rename(lines[1], '.', 'x'), lines[2], lines[3]], listed, true);
+            assert.deepEqual(plan.renames, []);
+            assert.deepEqual(plan.problems.map((p) => p.line), [1]);
+            plan = await planEdit(lines, [lines[0], lines[1], rename(lines[2], '..', 'y'), lines[3]], listed, true);
+            assert.deepEqual(plan.renames, []);
+            assert.deepEqual(plan.problems.map((p) => p.line), [2]);
+        } finally {
+            try { fs.rmSync(dir, { recursive: true, force: true }); } catch (e) { /* ignore */ }
+        }
+    });
+
+    test('wdired matches equally long edits by content', async () => {
+        const dir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'dired-wdired-')));
+        try {
+            // different sizes, so the lines differ before the name
+            for (const name of ['a', 'b', 'c']) fs.writeFileSync(path.join(dir, name), name.repeat(name.charCodeAt(0) - 96));
+            const { lines, listed } = wdiredListing(dir, ['a', 'b', 'c']);
+
+            // line b removed and a line added: b is deleted, c is not renamed to b
+            let plan = await planEdit(lines, [lines[0], lines[1], lines[3], ''], listed, true);
+            assert.deepEqual(plan.problems, []);
+            assert.deepEqual(plan.renames, []);
+            assert.deepEqual(plan.deletes, [path.join(dir, 'b')]);
+            plan = await planEdit(lines, [lines[0], lines[1], lines[3], 'x'], listed, true);
+            assert.deepEqual(plan.problems.map((p) => p.line), [3]);
+            assert.ok(/cannot be added/.test(plan.problems[0].message));
+
+            // a line moved: nothing changes
+            plan = await planEdit(lines, [lines[0], lines[2], lines[3], lines[1]], listed, true);
+            assert.deepEqual(plan.problems, []);
+            assert.deepEqual(plan.renames, []);
+            assert.deepEqual(plan.deletes, []);
+        } finally {
+            try { fs.rmSync(dir, { recursive: true, force: true }); } catch (e) { /* ignore */ }
+        }
+    });
+
+    test('wdired renames swaps through temporary names and undoes them', async () => {
+        const dir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'dired-wdired-')));
+        try {
+            for (const name of ['a', 'b', 'c']) fs.writeFileSync(path.join(dir, name), name);
+            const p = (name: string) => path.join(dir, name);
+            // a -> b -> c -> a
+            const { moves, failed } = await applyRenames([
+                { src: p('a'), dest: p('b'), line: 1 },
+                { src: p('b'), dest: p('c'), line: 2 },
+                { src: p('c'), dest: p('a'), line: 3 }
+            ], (from, to) => moveEntry(from, to));
+            assert.deepEqual(failed, []);
+            assert.deepEqual(['a', 'b', 'c'].map((n) => fs.readFileSync(p(n), 'utf8')), ['c', 'a', 'b']);
+            assert.deepEqual(fs.readdirSync(dir).sort(), ['a', 'b', 'c']);
+
+            const history = new UndoHistory();
+            const entry = (await history.record('wdired', 'Edit', moves.map(({ src, dest }) => ({ type: 'move' as const, src, dest }))))!;
+            assert.deepEqual(await history.check(entry, 'undo'), { blocked: [], changed: [] });
+            await history.undo(entry);
+            assert.deepEqual(['a', 'b', 'c'].map((n) => fs.readFileSync(p(n), 'utf8')), ['a', 'b', 'c']);
+            assert.deepEqual(await history.check(entry, 'redo'), { blocked: [], changed: [] });
+        } finally {
+            try { fs.rmSync(dir, { recursive: true, force: true }); } catch (e) { /* ignore */ }
+        }
+    });
+
+    test('wdired mode strings are parsed and edited modes planned', async () => {
+        assert.equal(parseModeString('-rw-r--r--'), 0o644);
+        assert.equal(parseModeString('drwxr-sr-t'), 0o3755);
+        assert.equal(parseModeString('-rwSr--r-T'), 0o5644);
+        assert.equal(parseModeString('-rw-r--r-'), undefined);
+        assert.equal(parseModeString('-wr-r--r--'), undefined);
+        const dir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'dired-wdired-')));
+        try {
+            fs.writeFileSync(path.join(dir, 'a'), 'a');
+            fs.writeFileSync(path.join(dir, 'b'), 'b');
+            fs.chmodSync(path.join(dir, 'a'), 0o644);
+            fs.chmodSync(path.join(dir, 'b'), 0o644);
+            const { lines, listed } = wdiredListing(dir, ['a', 'b']);
+            const edited = [lines[0], lines[1].replace('-rw-r--r--', '-rwxr-x---').replace(/a$/, 'c'), lines[2].replace('-rw-r--r--', '-rw-r--rq-')];
+            let plan = await planEdit(lines, edited, listed, false);
+            assert.deepEqual(plan.problems.map((p) => p.line), [2]);
+            assert.ok(/Invalid mode string/.test(plan.problems[0].message));
+            plan = await planEdit(lines, edited.slice(0, 2).concat(lines[2]), listed, false);
+            assert.deepEqual(plan.problems, []);
+            assert.deepEqual(plan.chmods, [{ path: path.join(dir, 'a'), mode: 0o750, line: 1 }]);
+            assert.deepEqual(plan.renames.map((r) => path.basename(r.dest)), ['c']);
+            // the file type is not a permission
+            plan = await planEdit(lines, [lines[0], lines[1].replace('-rw-r--r--', 'drw-r--r--'), lines[2]], listed, false);
+            assert.equal(plan.problems.length, 1);
+        } finally {
+            try { fs.rmSync(dir, { recursive: true, force: true }); } catch (e) { /* ignore */ }
+        }
+    });
+
+    test('batch rename replacements expand groups, case transforms and counters', () => {
+        const m = /IMG_(\d+)_(?<tag>\w+)\.jpg/.exec('IMG_7_beach.jpg')!;
+        assert.equal(expandReplacement('photo-${1:3}-$2.jpg', m, 1), 'photo-007-beach.jpg');
+        assert.equal(expandReplacement('\\u${tag}-\\#{2}', m, 4), 'Beach-04');
+        assert.equal(expandReplacement('\\U$2\\E-\\L$&', m, 1), 'BEACH-img_7_beach.jpg');
+        assert.equal(expandReplacement('$$1 \\l\\#', m, 12), '$1 12');
+        assert.throws(() => expandReplacement('$3', m, 1));
+        assert.throws(() => expandReplacement('${nope}', m, 1));
+    });
+
+    test('batch rename targets leave out the . and .. entries', async () => {
+        const dir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'dired-batch-')));
+        try {
+            fs.writeFileSync(path.join(dir, 'a.txt'), 'a');
+            const lines = [`${dir}:`].concat(['.', '..', 'a.txt'].map((name) => FileItem.create(dir, name, fs.lstatSync(path.join(dir, name))).line()));
+            const doc = { lineCount: lines.length, lineAt: (i: number) => ({ text: lines[i] }) };
+            const targets = DiredProvider.listedPaths(doc);
+            assert.deepEqual(targets, [path.join(dir, 'a.txt')]);
+            // a pattern matching every name renames only the listed file
+            const plan = await planBatchRename(targets, /^/, 'x-');
+            assert.deepEqual(plan.renames.map((r) => r.dest), [path.join(dir, 'x-a.txt')]);
+        } finally {
+            try { fs.rmSync(dir, { recursive: true, force: true }); } catch (e) { /* ignore */ }
+        }
+    });
+
+    test('batch rename detects collisions and renames all or nothing', async () => {
+        const dir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'dired-batch-')));
+        try {
+            const p = (name: string) => path.join(dir, name);
+            for (const name of ['IMG_1.jpg', 'IMG_2.jpg', 'notes.txt', 'photo.jpg']) fs.writeFileSync(p(name), name);
+            const targets = ['IMG_1.jpg', 'IMG_2.jpg', 'notes.txt'].map(p);
+            let plan = await planBatchRename(targets, /IMG_(\d+)/, 'pic-\\#{3}');
+            assert.deepEqual(plan.problems, []);
+            assert.deepEqual(plan.renames.map((r) => path.basename(r.dest)), ['pic-001.jpg', 'pic-002.jpg']);
+            // both names become photo.jpg, which also exists
+            plan = await planBatchRename(targets, /IMG_\d+/, 'photo');
+            assert.deepEqual(plan.problems.map((x) => x.line), [0, 1]);
+
+            // the second rename fails: the first is reverted
+            plan = await planBatchRename(targets, /IMG_(\d+)/, 'pic-$1');
+            let calls = 0;
+            const { moves, failed } = await renameAll(plan.renames, async (from, to) => {
+                if (++calls === 2) throw new Error('denied');
+                return moveEntry(from, to);
+            });
+            assert.deepEqual(moves, []);
+            assert.equal(failed.length, 1);
+            assert.deepEqual(fs.readdirSync(dir).sort(), ['IMG_1.jpg', 'IMG_2.jpg', 'notes.txt', 'photo.jpg']);
+        } finally {
+            try { fs.rmSync(dir, { recursive: true, force: true }); } catch (e) { /* ignore */ }
+        }
+    });
+
+    test('mark predicates select entries by name, type and attributes', async () => {
+        const dir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'dired-mark-')));
+        try {
+            const p = (name: string) => path.join(dir, name);
+            fs.writeFileSync(p('notes.TXT'), 'hello\nTODO: marks\n');
+            fs.writeFileSync(p('big.bin'), Buffer.alloc(5000));
+            fs.writeFileSync(p('run.sh'), '#!/bin/sh\n');
+            fs.chmodSync(p('run.sh'), 0o755);
+            fs.mkdirSync(p('sub.d'));
+            fs.symlinkSync('sub.d', p('link'));
+            const old = new Date(Date.now() - 10 * 24 * 60 * 60 * 1000);
+            fs.utimesSync(p('big.bin'), old, old);
+            const candidates: MarkCandidate[] = fs.readdirSync(dir).map((name) => ({ path: p(name), name, stat: fs.lstatSync(p(name)) }));
+            const marked = async (predicate: MarkPredicate) => {
+                const names: string[] = [];
+                for (const c of candidates) if (await predicate(c)) names.push(c.name);
+                return names.sort();
+            };
+            assert.deepEqual(await marked(byName(/^[a-z]+\.[a-z]{2,}$/)), ['big.bin', 'run.sh']);
+            assert.deepEqual(await marked(byExtension('txt, .sh')), ['notes.TXT', 'run.sh']);
+            assert.deepEqual(await marked(isDirectory), ['sub.d']);
+            assert.deepEqual(await marked(isExecutable), ['run.sh']);
+            assert.deepEqual(await marked(isSymlink), ['link']);
+            assert.deepEqual(await marked(bySize(parseSizeTest('+4k')!)), ['big.bin']);
+            assert.deepEqual(await marked(byAge(parseAgeTest('+7')!)), ['big.bin']);
+            assert.equal(parseSizeTest('10X'), undefined);
+            const uid = fs.statSync(dir).uid;
+            assert.equal((await marked(byOwner(String(uid), () => undefined))).length, 5);
+            assert.deepEqual(await marked(byOwner('someone', (id) => id === uid ? 'someone' : undefined)), (await marked(() => true)));
+            assert.deepEqual(await marked(byContent(/^TODO/m)), ['notes.TXT']);
+            assert.deepEqual(await marked(byContent(/TODO/, 10)), []);
+        } finally {
+            try { fs.rmSync(dir, { recursive: true, force: true }); } catch (e) { /* ignore */ }
+        }
+    });
+});